@@ -1,66 +1,351 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { PhotoData, AppState, HandGesture } from './types';
+import { AppState, HandGesture, GestureEvent, InputMode, InputSource, QualitySetting, QualityTier, TrackingErrorKind } from './types';
 import Experience from './components/Experience';
 import HandTrackerUI from './components/HandTrackerUI';
-import { CameraIcon, PhotoIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import ReplayUI from './components/ReplayUI';
+import PointerInput from './components/PointerInput';
+import KeyboardInput from './components/KeyboardInput';
+import InputSourcePicker from './components/InputSourcePicker';
+import PhotoLibraryPanel from './components/PhotoLibraryPanel';
+import PhotoGallery from './components/PhotoGallery';
+import LayoutPicker from './components/LayoutPicker';
+import SeedControl from './components/SeedControl';
+import ThemePicker from './components/ThemePicker';
+import AudioPanel from './components/AudioPanel';
+import GestureGuide from './components/GestureGuide';
+import GestureSettingsPanel from './components/GestureSettingsPanel';
+import PresentationBar from './components/PresentationBar';
+import DecorateToolbar from './components/DecorateToolbar';
+import ControllerStatus from './components/ControllerStatus';
+import SharePanel from './components/SharePanel';
+import GreetingOverlay from './components/GreetingOverlay';
+import SceneControls from './components/SceneControls';
+import SceneAnnouncer from './components/SceneAnnouncer';
+import MotionPicker from './components/MotionPicker';
+import PerformanceGovernor, { RenderStats } from './components/PerformanceGovernor';
+import QualityPicker from './components/QualityPicker';
+import StatsOverlay from './components/StatsOverlay';
+import CaptureController from './components/CaptureController';
+import CaptureControls from './components/CaptureControls';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary';
+import { useStateMachine } from './hooks/useStateMachine';
+import { useSceneSeed } from './hooks/useSceneSeed';
+import { useCanvasCapture } from './hooks/useCanvasCapture';
+import { useCaptureShortcut } from './hooks/useCaptureShortcut';
+import { useTheme } from './hooks/useTheme';
+import { useAudioReactor } from './hooks/useAudioReactor';
+import { useGestureSettings } from './hooks/useGestureSettings';
+import { usePresentation } from './hooks/usePresentation';
+import { useDecorations } from './hooks/useDecorations';
+import { useControllerLink } from './hooks/useControllerLink';
+import { useGreetingBundle } from './hooks/useGreetingBundle';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { useSteadyGesture } from './hooks/useSteadyGesture';
+import { AppEvent, createAppMachine } from './utils/appMachine';
+import { LandmarkSession, parseSession } from './utils/landmarkSession';
+import { getViewRole, LinkState, viewUrl, ViewRole } from './utils/displayLink';
+import { LayoutSelection } from './utils/layouts';
+import { GestureAction, gestureFor } from './utils/gestureBindings';
+import { loadQualitySetting, QUALITY_PROFILES, saveQualitySetting, stepTier } from './utils/quality';
+import { CameraIcon, ComputerDesktopIcon, FilmIcon, PaintBrushIcon, PhotoIcon, RectangleStackIcon, ShareIcon, SparklesIcon, TvIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+const DISPLAY_WINDOW_NAME = 'golden-christmas-display';
+
+// Leaving the zoomed photo by gesture needs the pose held still this long: relaxing out of
+// the zoom pinch or swiping to the next photo also passes through an open palm
+const ZOOM_EXIT_HOLD_MS = 500;
+const ZOOM_EXIT_MAX_DRIFT = 0.05;
+
+// Camera failures that auto mode answers by switching to the pointer; a retry is unlikely to
+// help and the visitor asked for no camera in particular. Odd settings or unknown errors keep
+// the camera view up with its recovery actions.
+const AUTO_FALLBACK_ERRORS: TrackingErrorKind[] = ['noDevice', 'permissionDenied', 'deviceBusy', 'modelLoad'];
+
+// Actions that keep working while decorating; the rest would fight with pinch-to-drag
+const DECORATE_ACTIONS: GestureAction[] = ['capture', 'toggleMusic'];
+
+// Actions that map straight onto state machine events
+const ACTION_EVENTS: Partial<Record<GestureAction, AppEvent>> = {
+  closeTree: { type: 'CLOSE_TREE' },
+  scatter: { type: 'SCATTER' },
+  nextPhoto: { type: 'STEP_PHOTO', offset: 1 },
+  previousPhoto: { type: 'STEP_PHOTO', offset: -1 },
+};
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.CLOSED);
-  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const [machine] = useState(createAppMachine);
+  const { state: appState, context: { selectedPhotoId } } = useStateMachine(machine);
+  const library = usePhotoLibrary();
+  const { photos } = library;
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [layout, setLayout] = useState<LayoutSelection>({ kind: 'cone' });
+  const sceneSeed = useSceneSeed();
+  const themes = useTheme();
+  const audio = useAudioReactor();
+  const gestureSettings = useGestureSettings();
+  const [isGestureSettingsOpen, setIsGestureSettingsOpen] = useState(false);
+  // The wizard asks for fists and pinches; they must not also trigger their bindings
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  // Photo under the hand cursor, reported by the scene
+  const hoveredPhotoRef = useRef<string | null>(null);
+  // Latest gesture, for event handlers that need to know what else is in view
+  const latestGestureRef = useRef<HandGesture | null>(null);
+  const photoIds = useMemo(() => photos.map(p => p.id), [photos]);
+  const presentation = usePresentation(machine, photoIds);
+  const isAutoplaying = presentation.isPresenting && !presentation.isTakenOver;
+  const decorations = useDecorations(library);
+  const [isDecorating, setIsDecorating] = useState(false);
+  // Standalone renders here; as a controller the scene renders in a separate display window
+  const [role, setRole] = useState<ViewRole>(getViewRole);
+  const isController = role === 'controller';
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const motion = useReducedMotion();
+  const greetings = useGreetingBundle({
+    library,
+    decorations: decorations.layout,
+    theme: themes.theme,
+    seed: sceneSeed.seed,
+    layout,
+    musicFile: audio.musicFile,
+    selectTheme: themes.selectTheme,
+    importTheme: themes.importTheme,
+    setSeed: sceneSeed.setSeed,
+    setLayout,
+  });
   const [gesture, setGesture] = useState<HandGesture | null>(null);
-  const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
   const [isCameraActive, setIsCameraActive] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('auto');
+  const [cameraFailed, setCameraFailed] = useState(false);
+  const [replaySession, setReplaySession] = useState<LandmarkSession | null>(null);
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>(loadQualitySetting);
+  // Auto starts in the middle and lets the governor find the right tier
+  const [autoTier, setAutoTier] = useState<QualityTier>('medium');
+  const [showStats, setShowStats] = useState(false);
+  const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+  const capture = useCanvasCapture();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files) {
-      const newPhotos: PhotoData[] = Array.from(files).map(file => ({
-        id: Math.random().toString(36).substr(2, 9),
-        url: URL.createObjectURL(file)
-      }));
-      setPhotos(prev => [...prev, ...newPhotos]);
+      library.addFiles(Array.from(files)).catch(err => console.error(err));
+    }
+    e.target.value = '';
+  };
+
+  // Keep the machine's view of the album current (it leaves ZOOMED if the photo disappears)
+  useEffect(() => {
+    machine.send({ type: 'PHOTOS_CHANGED', photoIds: photos.map(p => p.id) });
+  }, [machine, photos]);
+
+  // While controlling, the scene renders in the display window and there is no canvas here to capture
+  useCaptureShortcut(isController ? null : gesture, capture.snapshot);
+
+  const qualityTier = qualitySetting === 'auto' ? autoTier : qualitySetting;
+  const quality = QUALITY_PROFILES[qualityTier];
+
+  const handleQualityChange = (setting: QualitySetting) => {
+    saveQualitySetting(setting);
+    setQualitySetting(setting);
+  };
+
+  const stepAutoTier = useCallback((step: -1 | 1) => setAutoTier(tier => stepTier(tier, step)), []);
+
+  const activeSource: InputSource = inputMode === 'auto' ? (cameraFailed ? 'pointer' : 'camera') : inputMode;
+
+  const handleInputModeChange = (mode: InputMode) => {
+    // Choosing the camera explicitly gives it another chance to start
+    if (mode === 'camera') setCameraFailed(false);
+    latestGestureRef.current = null;
+    setGesture(null);
+    setInputMode(mode);
+  };
+
+  const handleSessionUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplaySession(parseSession(await file.text()));
+    } catch (err) {
+      console.error(err);
+      alert('Could not load that session file.');
     }
   };
 
+  const closeGallery = useCallback(() => machine.send({ type: 'CLOSE_PHOTO' }), [machine]);
+
+  const stepPhoto = useCallback((offset: number) => machine.send({ type: 'STEP_PHOTO', offset }), [machine]);
+
+  const onHoverChange = useCallback((photoId: string | null) => {
+    hoveredPhotoRef.current = photoId;
+  }, []);
+
+  const runAction = useCallback((action: GestureAction) => {
+    // Gestures only express intent; the state machine decides what is valid in each state
+    const appEvent = ACTION_EVENTS[action];
+    if (appEvent) machine.send(appEvent);
+    else if (action === 'zoomPhoto' && hoveredPhotoRef.current) {
+      machine.send({ type: 'SELECT_PHOTO', photoId: hoveredPhotoRef.current });
+    } else if (action === 'capture' && !isController) capture.snapshot();
+    else if (action === 'toggleMusic') audio.togglePause();
+  }, [machine, capture.snapshot, audio.togglePause, isController]);
+
+  // On-screen and keyboard controls take over from autoplay just like gestures do
+  const runControl = useCallback((action: GestureAction) => {
+    presentation.notifyActivity();
+    runAction(action);
+  }, [runAction, presentation.notifyActivity]);
+
+  const viewPhoto = useCallback((photoId: string) => {
+    presentation.notifyActivity();
+    setIsDecorating(false);
+    if (appState === AppState.CLOSED) machine.send({ type: 'SCATTER' });
+    machine.send({ type: 'SELECT_PHOTO', photoId });
+  }, [machine, appState, presentation.notifyActivity]);
+
+  const zoomExit = useSteadyGesture(ZOOM_EXIT_HOLD_MS, ZOOM_EXIT_MAX_DRIFT);
+
   const onGesture = useCallback((newGesture: HandGesture) => {
+    presentation.notifyActivity();
+    latestGestureRef.current = newGesture;
+    zoomExit.track(newGesture);
     setGesture(newGesture);
-    
-    // State transitions based on gestures
-    if (newGesture.isFist && appState !== AppState.CLOSED) {
-      setAppState(AppState.CLOSED);
-      setSelectedPhotoId(null);
-    } else if (newGesture.isOpen && appState === AppState.CLOSED) {
-      setAppState(AppState.SCATTERED);
+  }, [presentation.notifyActivity, zoomExit.track]);
+
+  const onGestureEvent = useCallback((event: GestureEvent) => {
+    zoomExit.handleEvent(event);
+    if (event.type !== 'start') return;
+    presentation.notifyActivity();
+    if (isCalibrating) return;
+    // With both hands in view a fist is half of the snapshot combo (useCaptureShortcut), not the fist binding
+    if (event.gesture === 'fist' && latestGestureRef.current?.otherHand) return;
+    audio.playCue(event.gesture);
+    const action = gestureSettings.bindings[event.gesture];
+    if (action === 'scatter' && machine.getSnapshot().state === AppState.ZOOMED) {
+      zoomExit.hold(event, latestGestureRef.current, () => {
+        if (machine.getSnapshot().state === AppState.ZOOMED) runAction(action);
+      });
+      return;
     }
-    
-    // Zoom/Grab logic is handled within the 3D scene for spatial selection
-  }, [appState]);
+    if (!isDecorating || DECORATE_ACTIONS.includes(action)) runAction(action);
+  }, [machine, runAction, audio.playCue, gestureSettings.bindings, presentation.notifyActivity, isDecorating, isCalibrating, zoomExit.hold, zoomExit.handleEvent]);
+
+  // Decorating happens on the closed tree
+  const startDecorating = () => {
+    presentation.stop();
+    machine.send({ type: 'CLOSE_TREE' });
+    setIsDecorating(true);
+  };
+
+  const startPresenting = () => {
+    setIsDecorating(false);
+    presentation.start();
+  };
+
+  const linkState = useMemo<LinkState>(() => {
+    const shot = presentation.shot;
+    return {
+      appState,
+      selectedPhotoId,
+      albumId: library.activeAlbumId,
+      photoIds,
+      theme: themes.theme,
+      layout,
+      seed: sceneSeed.seed,
+      decorations: decorations.layout,
+      isDecorating,
+      shot: shot && {
+        path: shot.path,
+        seconds: shot.seconds,
+        startedAtEpochMs: Date.now() - (performance.now() - shot.startedAt),
+      },
+    };
+  }, [appState, selectedPhotoId, library.activeAlbumId, photoIds, themes.theme, layout, sceneSeed.seed, decorations.layout, isDecorating, presentation.shot]);
+
+  const controllerLink = useControllerLink(isController, linkState, {
+    onHover: onHoverChange,
+    onPlace: decorations.place,
+    onEvent: event => machine.send(event),
+  });
+  const { sendGesture } = controllerLink;
+
+  useEffect(() => {
+    if (isController) sendGesture(gesture);
+  }, [isController, gesture, sendGesture]);
+
+  const switchRole = (next: ViewRole) => {
+    window.history.replaceState(null, '', viewUrl(next));
+    setRole(next);
+  };
+
+  const openDisplay = () => {
+    window.open(viewUrl('display'), DISPLAY_WINDOW_NAME, 'popup');
+    switchRole('controller');
+  };
+
+  const scatterGesture = gestureFor(gestureSettings.bindings, 'scatter');
+  const closeGesture = gestureFor(gestureSettings.bindings, 'closeTree');
 
   return (
-    <div className="relative w-screen h-screen bg-[#050a08] overflow-hidden">
+    <div className="relative w-screen h-screen overflow-hidden transition-colors duration-700" style={{ backgroundColor: themes.theme.background }}>
       {/* 3D Scene */}
-      <Canvas
-        shadows
-        camera={{ position: [0, 5, 15], fov: 45 }}
-        gl={{ antialias: false, alpha: false }}
-        className="w-full h-full"
-      >
-        <color attach="background" args={['#050a08']} />
-        <Experience 
-          appState={appState} 
-          photos={photos} 
-          gesture={gesture} 
-          selectedPhotoId={selectedPhotoId}
-          onPhotoSelect={setSelectedPhotoId}
-          setAppState={setAppState}
+      {isController ? (
+        <ControllerStatus
+          isDisplayConnected={controllerLink.isDisplayConnected}
+          onOpenDisplay={openDisplay}
+          onExit={() => switchRole('standalone')}
         />
-      </Canvas>
+      ) : (
+        <Canvas
+          shadows={quality.shadows}
+          dpr={quality.dpr}
+          camera={{ position: [0, 5, 15], fov: 45 }}
+          gl={{ antialias: false, alpha: false }}
+          className="w-full h-full"
+          role="img"
+          aria-label={`Christmas tree decorated with ${photos.length} ${photos.length === 1 ? 'photo' : 'photos'}`}
+        >
+          <Experience 
+            appState={appState} 
+            photos={photos} 
+            gesture={gesture} 
+            selectedPhotoId={selectedPhotoId}
+            onHoverChange={onHoverChange}
+            layout={layout}
+            seed={sceneSeed.seed}
+            quality={quality}
+            theme={themes.theme}
+            audio={audio.reactor}
+            cameraShot={presentation.shot}
+            isDecorating={isDecorating}
+            slots={decorations.slots}
+            slotCount={decorations.slotCount}
+            ornaments={decorations.ornaments}
+            onPlace={decorations.place}
+            reducedMotion={motion.isReduced}
+          />
+          <PerformanceGovernor
+            enabled={qualitySetting === 'auto'}
+            tierKey={qualityTier}
+            onStep={stepAutoTier}
+            onStats={showStats ? setRenderStats : undefined}
+          />
+          <CaptureController ref={capture.captureRef} />
+        </Canvas>
+      )}
+
+      {showStats && <StatsOverlay stats={renderStats} tier={qualityTier} particleCount={quality.particleCount} />}
+
+      {presentation.isPresenting && <PresentationBar presentation={presentation} />}
 
-      {/* UI Overlay */}
-      <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6">
+      {isDecorating && <DecorateToolbar decorations={decorations} onDone={() => setIsDecorating(false)} />}
+
+      {/* UI Overlay (hidden while autoplay runs; it comes back when someone takes over) */}
+      <div className={`absolute inset-0 pointer-events-none flex flex-col justify-between p-6 transition-all duration-700 ${isAutoplaying ? 'opacity-0 invisible' : ''}`}>
         {/* Top Header */}
         <div className="flex justify-between items-start pointer-events-auto">
           <div className="text-white">
@@ -86,54 +371,207 @@ const App: React.FC = () => {
               className="hidden" 
               onChange={handleFileUpload} 
             />
+            <button
+              onClick={() => {
+                setIsShareOpen(false);
+                setIsLibraryOpen(open => !open);
+              }}
+              className="flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 px-4 py-2 rounded-full transition-all"
+            >
+              <RectangleStackIcon className="w-5 h-5" />
+              <span className="text-sm font-medium">Library</span>
+            </button>
+            <button
+              onClick={() => {
+                setIsLibraryOpen(false);
+                setIsShareOpen(open => !open);
+              }}
+              className="flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 px-4 py-2 rounded-full transition-all"
+            >
+              <ShareIcon className="w-5 h-5" />
+              <span className="text-sm font-medium">Share</span>
+            </button>
+            {!isController && (
+              <button
+                onClick={openDisplay}
+                title="Show the tree in a separate window (e.g. on a projector) and control it from here"
+                className="flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 px-4 py-2 rounded-full transition-all"
+              >
+                <ComputerDesktopIcon className="w-5 h-5" />
+                <span className="text-sm font-medium">Projector</span>
+              </button>
+            )}
+            <button
+              onClick={isDecorating ? () => setIsDecorating(false) : startDecorating}
+              className={`flex items-center gap-2 border px-4 py-2 rounded-full transition-all ${
+                isDecorating ? 'bg-yellow-600/20 border-yellow-600/50 text-yellow-500' : 'bg-white/5 hover:bg-white/10 border-white/20 text-white/80'
+              }`}
+            >
+              <PaintBrushIcon className="w-5 h-5" />
+              <span className="text-sm font-medium">{isDecorating ? 'Done' : 'Decorate'}</span>
+            </button>
+            <button
+              onClick={() => sessionInputRef.current?.click()}
+              className="flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 px-4 py-2 rounded-full transition-all"
+            >
+              <FilmIcon className="w-5 h-5" />
+              <span className="text-sm font-medium">Replay Session</span>
+            </button>
+            <input
+              ref={sessionInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleSessionUpload}
+            />
+            <button
+              onClick={presentation.isPresenting ? presentation.stop : startPresenting}
+              className="flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 px-4 py-2 rounded-full transition-all"
+            >
+              <TvIcon className="w-5 h-5" />
+              <span className="text-sm font-medium">{presentation.isPresenting ? 'Stop Presenting' : 'Present'}</span>
+            </button>
           </div>
         </div>
 
-        {/* Center Prompt */}
-        <div className="flex flex-col items-center justify-center text-center opacity-40 group hover:opacity-100 transition-opacity">
-          {appState === AppState.CLOSED && (
-            <p className="text-yellow-500 text-sm animate-pulse">Open your palm to scatter the tree</p>
-          )}
-          {appState === AppState.SCATTERED && (
-            <p className="text-yellow-500 text-sm animate-pulse">Clench your fist to rebuild</p>
-          )}
-        </div>
+        {/* Center Prompt, with buttons and keys for the same actions */}
+        {!isDecorating && (
+          <SceneControls
+            appState={appState}
+            hasPhotos={photos.length > 0}
+            scatterGesture={scatterGesture}
+            closeGesture={closeGesture}
+            onScatter={() => runControl('scatter')}
+            onClose={() => runControl('closeTree')}
+            onBrowse={() => photos.length > 0 && viewPhoto(photos[0].id)}
+          />
+        )}
 
         {/* Bottom Panel */}
         <div className="flex justify-between items-end">
           <div className="pointer-events-auto">
-             <HandTrackerUI onGesture={onGesture} onActiveChange={setIsCameraActive} />
+             {replaySession ? (
+               <ReplayUI
+                 session={replaySession}
+                 onGesture={onGesture}
+                 onGestureEvent={onGestureEvent}
+                 onExit={() => setReplaySession(null)}
+               />
+             ) : (
+               <>
+                 <InputSourcePicker mode={inputMode} activeSource={activeSource} onChange={handleInputModeChange} />
+                 {activeSource === 'camera' && (
+                   <HandTrackerUI
+                     onGesture={onGesture}
+                     onGestureEvent={onGestureEvent}
+                     onActiveChange={setIsCameraActive}
+                     onError={kind => {
+                       // Explicit camera mode keeps the retry and switch-camera screen
+                       if (inputMode === 'auto' && AUTO_FALLBACK_ERRORS.includes(kind)) setCameraFailed(true);
+                     }}
+                     onFallback={() => handleInputModeChange('pointer')}
+                     modelComplexity={quality.modelComplexity}
+                     recognizerOptions={gestureSettings.calibration}
+                   />
+                 )}
+                 {activeSource === 'pointer' && <PointerInput onGesture={onGesture} onGestureEvent={onGestureEvent} />}
+                 {activeSource === 'keyboard' && <KeyboardInput onGesture={onGesture} onGestureEvent={onGestureEvent} />}
+               </>
+             )}
           </div>
 
-          <div className="bg-black/40 backdrop-blur-md border border-white/10 p-4 rounded-2xl w-64 text-white pointer-events-auto">
-            <h3 className="text-xs font-bold text-yellow-500 mb-2 uppercase tracking-widest">Gesture Guide</h3>
-            <ul className="text-xs space-y-2 opacity-80">
-              <li className="flex justify-between"><span>✊ Clench Fist</span> <span className="text-green-400">Close Tree</span></li>
-              <li className="flex justify-between"><span>✋ Open Palm</span> <span className="text-green-400">Scatter Tree</span></li>
-              <li className="flex justify-between"><span>🤏 Pinch Index</span> <span className="text-green-400">Zoom Photo</span></li>
-              <li className="flex justify-between"><span>👋 Move Hand</span> <span className="text-green-400">Rotate View</span></li>
-            </ul>
+          <div className="flex flex-col gap-3 items-end">
+            {!isController && <CaptureControls capture={capture} />}
+            <QualityPicker
+              setting={qualitySetting}
+              activeTier={qualityTier}
+              onChange={handleQualityChange}
+              showStats={showStats}
+              onToggleStats={() => setShowStats(show => !show)}
+            />
+            <MotionPicker setting={motion.setting} isReduced={motion.isReduced} onChange={motion.setSetting} />
+            <SeedControl
+              seed={sceneSeed.seed}
+              isPinned={sceneSeed.isPinned}
+              onSeedChange={sceneSeed.setSeed}
+              onReroll={sceneSeed.reroll}
+              onTogglePin={sceneSeed.togglePin}
+            />
+            <AudioPanel audio={audio} />
+            <ThemePicker
+              theme={themes.theme}
+              themes={themes.themes}
+              onSelect={themes.selectTheme}
+              onImport={themes.importTheme}
+            />
+            <LayoutPicker layout={layout} onChange={setLayout} />
+            <GestureGuide
+              bindings={gestureSettings.bindings}
+              canCapture={!isController}
+              onOpenSettings={() => setIsGestureSettingsOpen(true)}
+            />
           </div>
         </div>
       </div>
 
-      {/* Selected Photo Modal Overlay */}
+      {isGestureSettingsOpen && (
+        <GestureSettingsPanel
+          bindings={gestureSettings.bindings}
+          onBindingsChange={gestureSettings.setBindings}
+          onResetBindings={gestureSettings.resetBindings}
+          isCalibrated={gestureSettings.calibration !== null}
+          canCalibrate={activeSource === 'camera' && isCameraActive && !replaySession}
+          gesture={gesture}
+          onCalibrationChange={gestureSettings.setCalibration}
+          isCalibrating={isCalibrating}
+          onCalibratingChange={setIsCalibrating}
+          onClose={() => {
+            setIsCalibrating(false);
+            setIsGestureSettingsOpen(false);
+          }}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <PhotoLibraryPanel
+          library={library}
+          onClose={() => setIsLibraryOpen(false)}
+          onView={photoId => {
+            setIsLibraryOpen(false);
+            viewPhoto(photoId);
+          }}
+        />
+      )}
+
+      {isShareOpen && (
+        <SharePanel
+          bundle={greetings}
+          photoCount={photos.length}
+          musicName={audio.musicFile?.name ?? null}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
+
+      {greetings.received && (
+        <GreetingOverlay
+          greeting={greetings.received}
+          onStart={music => {
+            if (music) audio.playFile(music);
+            greetings.dismissGreeting();
+          }}
+        />
+      )}
+
+      <SceneAnnouncer appState={appState} photos={photos} selectedPhotoId={selectedPhotoId} isDecorating={isDecorating} />
+
+      {/* Selected Photo Gallery Overlay */}
       {selectedPhotoId && (
-        <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center pointer-events-auto">
-          <button 
-            onClick={() => setSelectedPhotoId(null)}
-            className="absolute top-10 right-10 text-white p-2 hover:bg-white/10 rounded-full"
-          >
-            <XMarkIcon className="w-10 h-10" />
-          </button>
-          <div className="relative max-w-[80vw] max-h-[80vh]">
-            <img 
-              src={photos.find(p => p.id === selectedPhotoId)?.url} 
-              alt="Zoomed" 
-              className="object-contain w-full h-full shadow-2xl border-4 border-yellow-500/30 rounded-lg"
-            />
-          </div>
-        </div>
+        <PhotoGallery
+          photos={photos}
+          selectedPhotoId={selectedPhotoId}
+          onStep={stepPhoto}
+          onClose={closeGallery}
+        />
       )}
     </div>
   );
@@ -0,0 +1,67 @@
+import React, { useRef } from 'react';
+import { MicrophoneIcon, MusicalNoteIcon, PauseIcon, PlayIcon, SpeakerWaveIcon, StopIcon } from '@heroicons/react/24/outline';
+import { AudioControls } from '../hooks/useAudioReactor';
+
+interface AudioPanelProps {
+  audio: AudioControls;
+}
+
+const iconButton = (active: boolean) =>
+  `p-1 rounded-full transition-all ${active ? 'text-yellow-500 bg-yellow-600/20' : 'hover:bg-white/10'}`;
+
+/** Music-reactive mode: pick a track or the microphone, and set music and cue volumes. */
+const AudioPanel: React.FC<AudioPanelProps> = ({ audio }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) audio.playFile(file);
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 px-3 py-2 rounded-2xl w-64 text-white pointer-events-auto space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest flex-1">Music</span>
+        <button onClick={() => fileInputRef.current?.click()} title="Play a local audio file" className={iconButton(audio.sourceKind === 'file')}>
+          <MusicalNoteIcon className="w-4 h-4" />
+        </button>
+        <button onClick={audio.listenToMicrophone} title="React to the microphone" className={iconButton(audio.sourceKind === 'microphone')}>
+          <MicrophoneIcon className="w-4 h-4" />
+        </button>
+        {audio.sourceKind === 'file' && (
+          <button onClick={audio.togglePause} title={audio.isPaused ? 'Resume' : 'Pause'} className="p-1 hover:bg-white/10 rounded-full">
+            {audio.isPaused ? <PlayIcon className="w-4 h-4" /> : <PauseIcon className="w-4 h-4" />}
+          </button>
+        )}
+        <button onClick={audio.stop} disabled={!audio.sourceKind} title="Stop" className="p-1 hover:bg-white/10 rounded-full disabled:opacity-30">
+          <StopIcon className="w-4 h-4" />
+        </button>
+        <button onClick={audio.toggleCues} title={audio.cuesEnabled ? 'Gesture sounds on' : 'Gesture sounds off'} className={iconButton(audio.cuesEnabled)}>
+          <SpeakerWaveIcon className="w-4 h-4" />
+        </button>
+        <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFile} />
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-white/60">
+        <span className="w-10">Music</span>
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={audio.musicVolume}
+          onChange={e => audio.setMusicVolume(Number(e.target.value))}
+          className="flex-1 accent-yellow-500"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-[10px] text-white/60">
+        <span className="w-10">Sounds</span>
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={audio.effectsVolume}
+          onChange={e => audio.setEffectsVolume(Number(e.target.value))}
+          className="flex-1 accent-yellow-500"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default AudioPanel;
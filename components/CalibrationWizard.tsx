@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandGesture } from '../types';
+import { GestureRecognizerOptions } from '../utils/gestureRecognizer';
+import { CALIBRATION_STEPS, CalibrationSamples, deriveRecognizerOptions, samplePose } from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  gesture: HandGesture | null;
+  onComplete: (options: Partial<GestureRecognizerOptions>) => void;
+  onCancel: () => void;
+}
+
+// Time to get into the pose, then time it is measured for
+const READY_MS = 2000;
+const HOLD_MS = 2500;
+
+type Phase = 'ready' | 'hold' | 'done';
+
+const emptySamples = (): CalibrationSamples => ({ open: [], fist: [], pinch: [] });
+
+/** Walks the user through holding each pose and derives personal recognizer thresholds. */
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ gesture, onComplete, onCancel }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [phaseStartedAt, setPhaseStartedAt] = useState(() => performance.now());
+  const [now, setNow] = useState(() => performance.now());
+  const samplesRef = useRef<CalibrationSamples>(emptySamples());
+  const [result, setResult] = useState<{ options?: Partial<GestureRecognizerOptions>; error?: string } | null>(null);
+  const step = CALIBRATION_STEPS[stepIndex];
+
+  // Drive the countdowns
+  useEffect(() => {
+    if (phase === 'done') return;
+    const id = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(id);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase === 'done') return;
+    const elapsed = now - phaseStartedAt;
+    if (phase === 'ready' && elapsed >= READY_MS) {
+      setPhase('hold');
+      setPhaseStartedAt(now);
+    } else if (phase === 'hold' && elapsed >= HOLD_MS) {
+      if (stepIndex + 1 < CALIBRATION_STEPS.length) {
+        setStepIndex(stepIndex + 1);
+        setPhase('ready');
+        setPhaseStartedAt(now);
+      } else {
+        try {
+          setResult({ options: deriveRecognizerOptions(samplesRef.current) });
+        } catch (err) {
+          setResult({ error: err instanceof Error ? err.message : String(err) });
+        }
+        setPhase('done');
+      }
+    }
+  }, [now, phase, phaseStartedAt, stepIndex]);
+
+  // Every tracked frame during a hold is one sample of the current pose
+  useEffect(() => {
+    if (phase === 'hold' && gesture?.rawLandmarks) {
+      samplesRef.current[step.pose].push(samplePose(gesture.rawLandmarks));
+    }
+  }, [gesture, phase, step.pose]);
+
+  const restart = () => {
+    samplesRef.current = emptySamples();
+    setResult(null);
+    setStepIndex(0);
+    setPhase('ready');
+    setPhaseStartedAt(performance.now());
+  };
+
+  const progress = phase === 'done' ? 1 : Math.min((now - phaseStartedAt) / (phase === 'ready' ? READY_MS : HOLD_MS), 1);
+
+  return (
+    <div className="space-y-3">
+      {phase !== 'done' ? (
+        <>
+          <div className="flex justify-between text-[10px] uppercase tracking-widest text-white/50">
+            <span>Step {stepIndex + 1} / {CALIBRATION_STEPS.length}</span>
+            <span>{phase === 'ready' ? 'Get ready' : 'Hold still'}</span>
+          </div>
+          <p className="text-lg">{step.label}</p>
+          <p className="text-xs text-white/70">{step.instruction}</p>
+          <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${phase === 'hold' ? 'bg-green-400' : 'bg-yellow-500'}`}
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          {phase === 'hold' && !gesture && <p className="text-[10px] text-red-400">No hand in view</p>}
+        </>
+      ) : result?.error ? (
+        <p className="text-xs text-red-400">{result.error}</p>
+      ) : (
+        <p className="text-xs text-green-400">Calibration finished. Save it to use your personal thresholds.</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 text-[10px] uppercase tracking-widest rounded-full hover:bg-white/10">
+          Cancel
+        </button>
+        {phase === 'done' && (
+          <button onClick={restart} className="px-3 py-1 text-[10px] uppercase tracking-widest rounded-full border border-white/20 hover:bg-white/10">
+            Retry
+          </button>
+        )}
+        {result?.options && (
+          <button
+            onClick={() => onComplete(result.options!)}
+            className="px-3 py-1 text-[10px] uppercase tracking-widest rounded-full border border-yellow-600/50 bg-yellow-600/20 text-yellow-500 hover:bg-yellow-600/40"
+          >
+            Save
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
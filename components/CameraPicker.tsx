@@ -0,0 +1,57 @@
+import React from 'react';
+import { CameraSettings } from '../types';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS } from '../utils/cameraDevices';
+
+interface CameraPickerProps {
+  cameras: MediaDeviceInfo[];
+  settings: CameraSettings;
+  /** Camera that is actually streaming, when no specific one was chosen. */
+  activeDeviceId: string | null;
+  onChange: (settings: CameraSettings) => void;
+}
+
+const pillClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-full border text-[9px] font-bold uppercase tracking-widest transition-all ${
+    active ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20' : 'border-white/10 text-white/60 bg-black/40 hover:text-white'
+  }`;
+
+const CameraPicker: React.FC<CameraPickerProps> = ({ cameras, settings, activeDeviceId, onChange }) => (
+  <div className="space-y-1.5">
+    <select
+      value={settings.deviceId ?? activeDeviceId ?? ''}
+      onChange={e => onChange({ ...settings, deviceId: e.target.value || null })}
+      className="w-full bg-black/60 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white"
+    >
+      {cameras.length === 0 && <option value="">Default camera</option>}
+      {cameras.map((camera, i) => (
+        <option key={camera.deviceId || i} value={camera.deviceId}>
+          {camera.label || `Camera ${i + 1}`}
+        </option>
+      ))}
+    </select>
+    <div className="flex items-center gap-1">
+      {CAMERA_RESOLUTIONS.map(resolution => (
+        <button
+          key={resolution.label}
+          onClick={() => onChange({ ...settings, width: resolution.width, height: resolution.height })}
+          className={pillClass(settings.width === resolution.width && settings.height === resolution.height)}
+        >
+          {resolution.label}
+        </button>
+      ))}
+    </div>
+    <div className="flex items-center gap-1">
+      {CAMERA_FRAME_RATES.map(frameRate => (
+        <button
+          key={frameRate}
+          onClick={() => onChange({ ...settings, frameRate })}
+          className={pillClass(settings.frameRate === frameRate)}
+        >
+          {frameRate} fps
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default CameraPicker;
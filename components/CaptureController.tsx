@@ -0,0 +1,49 @@
+import React, { useEffect, useImperativeHandle } from 'react';
+import { addAfterEffect, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CAPTURE_UI_LAYER, canvasToBlob, SnapshotOptions } from '../utils/capture';
+
+export interface CaptureHandle {
+  canvas: HTMLCanvasElement;
+  /** Renders one frame at `scale`x resolution (postprocessing included) and returns it as PNG. */
+  snapshot: (options: SnapshotOptions) => Promise<Blob>;
+}
+
+interface CaptureControllerProps {
+  ref?: React.Ref<CaptureHandle>;
+}
+
+/** Renders nothing; gives the DOM side access to the renderer for captures. */
+const CaptureController: React.FC<CaptureControllerProps> = ({ ref }) => {
+  const { gl, camera } = useThree();
+
+  useEffect(() => {
+    camera.layers.enable(CAPTURE_UI_LAYER);
+  }, [camera]);
+
+  useImperativeHandle(ref, () => ({
+    canvas: gl.domElement,
+    snapshot: ({ scale, hideUi }) => new Promise<Blob>((resolve, reject) => {
+      const baseRatio = gl.getPixelRatio();
+      const size = gl.getSize(new THREE.Vector2());
+      // Stay within what the GPU can allocate for the render targets
+      const maxRatio = gl.capabilities.maxTextureSize / Math.max(size.width, size.height);
+      gl.setPixelRatio(Math.min(baseRatio * scale, maxRatio));
+      if (hideUi) camera.layers.disable(CAPTURE_UI_LAYER);
+
+      // The drawing buffer is only intact between rendering and compositing, so read it
+      // right after the next frame has rendered at the new size
+      const remove = addAfterEffect(() => {
+        remove();
+        const capture = canvasToBlob(gl.domElement);
+        gl.setPixelRatio(baseRatio);
+        camera.layers.enable(CAPTURE_UI_LAYER);
+        capture.then(resolve, reject);
+      });
+    }),
+  }), [gl, camera]);
+
+  return null;
+};
+
+export default CaptureController;
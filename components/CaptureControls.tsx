@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { CameraIcon, VideoCameraIcon } from '@heroicons/react/24/outline';
+import { CanvasCapture } from '../hooks/useCanvasCapture';
+import { MAX_RECORDING_MS, SNAPSHOT_SCALES } from '../utils/capture';
+
+interface CaptureControlsProps {
+  capture: CanvasCapture;
+}
+
+const pillClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-full border text-[9px] font-bold uppercase tracking-widest transition-all ${
+    active ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20' : 'border-white/10 text-white/60 bg-black/40 hover:text-white'
+  }`;
+
+const formatSeconds = (ms: number) => `${Math.floor(ms / 1000)}s`;
+
+const CaptureControls: React.FC<CaptureControlsProps> = ({ capture }) => {
+  const { snapshotOptions, setSnapshotOptions, isCapturing, snapshot, canRecord, recordingStartedAt, toggleRecording } = capture;
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the recording timer
+  useEffect(() => {
+    if (recordingStartedAt === null) return;
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [recordingStartedAt]);
+
+  return (
+    <div className="flex items-center gap-1 pointer-events-auto">
+      {SNAPSHOT_SCALES.map(scale => (
+        <button
+          key={scale}
+          onClick={() => setSnapshotOptions({ ...snapshotOptions, scale })}
+          title={`Snapshot at ${scale}x screen resolution`}
+          className={pillClass(snapshotOptions.scale === scale)}
+        >
+          {scale}x
+        </button>
+      ))}
+      <button
+        onClick={() => setSnapshotOptions({ ...snapshotOptions, hideUi: !snapshotOptions.hideUi })}
+        title={snapshotOptions.hideUi ? 'Hand cursor hidden in captures' : 'Hand cursor shown in captures'}
+        className={pillClass(!snapshotOptions.hideUi)}
+      >
+        Cursor
+      </button>
+      <button
+        onClick={snapshot}
+        disabled={isCapturing}
+        title="Save a PNG snapshot"
+        className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-yellow-600/50 bg-yellow-600/20 text-yellow-500 text-[9px] font-bold uppercase tracking-widest hover:bg-yellow-600/40 disabled:opacity-40"
+      >
+        <CameraIcon className="w-3 h-3" />
+        Snap
+      </button>
+      {canRecord && (
+        <button
+          onClick={toggleRecording}
+          title={recordingStartedAt === null ? `Record up to ${formatSeconds(MAX_RECORDING_MS)} of WebM video` : 'Stop and save the recording'}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-white/10 bg-black/40 text-white/80 text-[9px] font-bold uppercase tracking-widest hover:bg-black/70"
+        >
+          {recordingStartedAt === null ? (
+            <>
+              <VideoCameraIcon className="w-3 h-3" />
+              Rec
+            </>
+          ) : (
+            <>
+              <span className="w-2 h-2 rounded-full bg-red-500 motion-safe:animate-pulse" />
+              {formatSeconds(Math.max(now - recordingStartedAt, 0))} / {formatSeconds(MAX_RECORDING_MS)}
+            </>
+          )}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CaptureControls;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { ComputerDesktopIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ControllerStatusProps {
+  isDisplayConnected: boolean;
+  onOpenDisplay: () => void;
+  onExit: () => void;
+}
+
+/** Stands in for the scene in controller mode, which renders on the display window instead. */
+const ControllerStatus: React.FC<ControllerStatusProps> = ({ isDisplayConnected, onOpenDisplay, onExit }) => (
+  <div className="absolute inset-0 flex items-center justify-center">
+    <div className="flex flex-col items-center gap-3 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl px-6 py-5 text-white">
+      <ComputerDesktopIcon className="w-10 h-10 text-yellow-500" />
+      <div className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full ${isDisplayConnected ? 'bg-green-400' : 'bg-red-500 motion-safe:animate-pulse'}`} />
+        <span className="text-[10px] font-bold uppercase tracking-widest">
+          {isDisplayConnected ? 'Display connected' : 'Waiting for a display'}
+        </span>
+      </div>
+      <p className="text-xs text-white/50 max-w-64 text-center">
+        The tree renders in the display window; drag it to the projector and make it full screen.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onOpenDisplay}
+          className="px-3 py-1 rounded-full border border-yellow-500 text-yellow-500 bg-yellow-600/20 text-[10px] font-bold uppercase tracking-widest"
+        >
+          Open display window
+        </button>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 px-3 py-1 rounded-full border border-white/10 text-white/60 bg-black/40 hover:text-white text-[10px] font-bold uppercase tracking-widest"
+        >
+          <XMarkIcon className="w-3 h-3" />
+          Single window
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ControllerStatus;
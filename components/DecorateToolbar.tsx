@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { ArrowPathIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { OrnamentKind } from '../types';
+import { Decorations } from '../hooks/useDecorations';
+import { ORNAMENT_KINDS } from '../utils/decorations';
+
+interface DecorateToolbarProps {
+  decorations: Decorations;
+  onDone: () => void;
+}
+
+const iconButton = 'p-1 hover:bg-white/10 rounded-full disabled:opacity-30 disabled:hover:bg-transparent';
+
+/** Controls for decorate mode: add ornaments, undo/redo (also Ctrl+Z / Ctrl+Shift+Z) and leave. */
+const DecorateToolbar: React.FC<DecorateToolbarProps> = ({ decorations, onDone }) => {
+  const { addOrnament, undo, redo, reset, canUndo, canRedo } = decorations;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  return (
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2 pointer-events-auto">
+      <div className="flex items-center gap-3 bg-black/50 backdrop-blur-md border border-white/10 rounded-full px-4 py-1.5 text-white">
+        <span className="w-2 h-2 rounded-full bg-yellow-500" />
+        <span className="text-[10px] font-bold uppercase tracking-widest">Decorating</span>
+        {(Object.keys(ORNAMENT_KINDS) as OrnamentKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => addOrnament(kind)}
+            className="px-2 py-0.5 rounded-full border border-white/10 text-[9px] font-bold uppercase tracking-widest text-white/60 bg-black/40 hover:text-white"
+          >
+            + {ORNAMENT_KINDS[kind].label}
+          </button>
+        ))}
+        <button onClick={undo} disabled={!canUndo} title="Undo" className={iconButton}>
+          <ArrowUturnLeftIcon className="w-4 h-4" />
+        </button>
+        <button onClick={redo} disabled={!canRedo} title="Redo" className={iconButton}>
+          <ArrowUturnRightIcon className="w-4 h-4" />
+        </button>
+        <button onClick={reset} title="Reset to the automatic layout" className={iconButton}>
+          <ArrowPathIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onDone} title="Done decorating" className={iconButton}>
+          <CheckIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-[10px] text-yellow-500/80 uppercase tracking-widest">
+        Pinch a photo or ornament to drag it · hold near the edge to turn the tree
+      </p>
+    </div>
+  );
+};
+
+export default DecorateToolbar;
@@ -0,0 +1,117 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { QualityTier } from '../types';
+import Experience from './Experience';
+import PhotoGallery from './PhotoGallery';
+import PerformanceGovernor from './PerformanceGovernor';
+import { usePhotoLibrary } from '../hooks/usePhotoLibrary';
+import { useDisplayLink } from '../hooks/useDisplayLink';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import type { CameraShot } from '../hooks/usePresentation';
+import { assignSlots, slotCount } from '../utils/decorations';
+import { loadQualitySetting, QUALITY_PROFILES, stepTier } from '../utils/quality';
+
+/**
+ * Display-only window for a projector: renders the scene exactly as the
+ * controller window describes it. Photos come from the shared IndexedDB,
+ * so a display on another device shows the tree without them.
+ */
+const DisplayView: React.FC = () => {
+  const link = useDisplayLink();
+  const { state, gesture } = link;
+  const library = usePhotoLibrary();
+  const [qualitySetting] = useState(loadQualitySetting);
+  const { isReduced } = useReducedMotion();
+  const [autoTier, setAutoTier] = useState<QualityTier>('medium');
+  const qualityTier = qualitySetting === 'auto' ? autoTier : qualitySetting;
+  const stepAutoTier = useCallback((step: -1 | 1) => setAutoTier(tier => stepTier(tier, step)), []);
+
+  // Follow the controller's album, and reload when its photos change
+  const albumId = state?.albumId ?? null;
+  const photoIds = state?.photoIds;
+  useEffect(() => {
+    if (albumId && albumId !== library.activeAlbumId) library.selectAlbum(albumId);
+  }, [albumId, library.activeAlbumId, library.selectAlbum]);
+  useEffect(() => {
+    if (!photoIds || albumId !== library.activeAlbumId) return;
+    const loaded = new Set(library.photos.map(p => p.id));
+    if (photoIds.some(id => !loaded.has(id))) library.reload();
+  }, [photoIds, albumId]);
+
+  // The controller's order, limited to photos this window can actually load
+  const photos = useMemo(() => {
+    const byId = new Map(library.photos.map(p => [p.id, p]));
+    return (photoIds ?? []).flatMap(id => byId.get(id) ?? []);
+  }, [library.photos, photoIds]);
+
+  const ornaments = state?.decorations.ornaments ?? [];
+  const decoratedSlots = state?.decorations.slots;
+  const slots = useMemo(
+    () => assignSlots([...(photoIds ?? []), ...ornaments.map(o => o.id)], decoratedSlots ?? {}),
+    [photoIds, ornaments, decoratedSlots]
+  );
+
+  const shot = state?.shot;
+  const cameraShot = useMemo<CameraShot | null>(
+    () => shot ? { path: shot.path, seconds: shot.seconds, startedAt: performance.now() - (Date.now() - shot.startedAtEpochMs) } : null,
+    [shot]
+  );
+
+  if (!state) {
+    return (
+      <div className="w-screen h-screen bg-black flex items-center justify-center">
+        <p className="text-yellow-500 text-sm uppercase tracking-widest motion-safe:animate-pulse">Waiting for the controller window…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-screen h-screen overflow-hidden" style={{ backgroundColor: state.theme.background }}>
+      <Canvas
+        shadows={QUALITY_PROFILES[qualityTier].shadows}
+        dpr={QUALITY_PROFILES[qualityTier].dpr}
+        camera={{ position: [0, 5, 15], fov: 45 }}
+        gl={{ antialias: false, alpha: false }}
+        className="w-full h-full"
+      >
+        <Experience
+          appState={state.appState}
+          photos={photos}
+          gesture={gesture}
+          selectedPhotoId={state.selectedPhotoId}
+          onHoverChange={link.sendHover}
+          layout={state.layout}
+          seed={state.seed}
+          quality={QUALITY_PROFILES[qualityTier]}
+          theme={state.theme}
+          cameraShot={cameraShot}
+          isDecorating={state.isDecorating}
+          slots={slots}
+          slotCount={slotCount(slots.size, decoratedSlots ?? {})}
+          ornaments={ornaments}
+          onPlace={link.sendPlace}
+          reducedMotion={isReduced}
+        />
+        <PerformanceGovernor enabled={qualitySetting === 'auto'} tierKey={qualityTier} onStep={stepAutoTier} />
+      </Canvas>
+
+      {!link.isControllerConnected && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/50 border border-white/10 rounded-full px-4 py-1.5">
+          <span className="w-2 h-2 rounded-full bg-red-500 motion-safe:animate-pulse" />
+          <span className="text-[10px] font-bold text-white uppercase tracking-widest">Controller disconnected · reconnecting</span>
+        </div>
+      )}
+
+      {state.selectedPhotoId && (
+        <PhotoGallery
+          photos={photos}
+          selectedPhotoId={state.selectedPhotoId}
+          onStep={offset => link.sendEvent({ type: 'STEP_PHOTO', offset })}
+          onClose={() => link.sendEvent({ type: 'CLOSE_PHOTO' })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DisplayView;
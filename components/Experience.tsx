@@ -1,192 +1,481 @@
 
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Bloom, EffectComposer, Noise, Vignette } from '@react-three/postprocessing';
-import { AppState, HandGesture, PhotoData } from '../types';
+import { AppState, HandGesture, Ornament, PhotoData, QualityProfile, Theme, ThemeLight } from '../types';
 import PhotoItem from './PhotoItem';
+import OrnamentParticles from './OrnamentParticles';
+import OrnamentItem from './OrnamentItem';
+import { handToNdc, isOnScreen, findItemId, findPhotoId, handSpan, handTwist, wrapAngle } from '../utils/handSpace';
+import { allocateTextures, TextureCandidate } from '../utils/textureBudget';
+import { DEFAULT_LAYOUT_PARAMS, generateLayout, generateScatter, LayoutSelection } from '../utils/layouts';
+import { createRandom } from '../utils/random';
+import { CAPTURE_UI_LAYER } from '../utils/capture';
+import { easeColor, themeEase } from '../utils/themes';
+import { AudioReactor } from '../utils/audioReactor';
+import { sampleCameraPath } from '../utils/presentation';
+import { nearestFreeSlot, projectOntoSurface } from '../utils/decorations';
+import type { CameraShot } from '../hooks/usePresentation';
+
+// How far in front of the camera the 3D hand cursor floats
+const CURSOR_DISTANCE = 8;
+// Camera distance multiplier range for two-hand zoom
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 1.8;
+// Palm roll below the dead zone is ignored; beyond it the view tilts up to MAX_TILT
+const TILT_DEAD_ZONE = 0.15;
+const MAX_TILT = 0.5;
+// How often (seconds) photo texture residency is re-evaluated
+const TEXTURE_CHECK_INTERVAL = 0.5;
+// Decorate mode: fixed front view, and holding the hand near a screen edge turns the tree
+const DECORATE_CAMERA = new THREE.Vector3(0, 2, 18);
+const EDGE_ROTATE_ZONE = 0.75;
+const EDGE_ROTATE_SPEED = 1.5;
 
 interface ExperienceProps {
   appState: AppState;
   photos: PhotoData[];
   gesture: HandGesture | null;
   selectedPhotoId: string | null;
-  onPhotoSelect: (id: string | null) => void;
-  setAppState: (state: AppState) => void;
+  /** Reports the photo under the hand cursor; selecting it is up to the gesture bindings. */
+  onHoverChange: (id: string | null) => void;
+  layout: LayoutSelection;
+  /** Scene seed: same seed, same scatter, colors and sizes. */
+  seed: number;
+  /** Current quality tier's settings; decides ornament count and which post passes run. */
+  quality: QualityProfile;
+  /** Colors fade to a new theme; material and postprocessing numbers switch directly. */
+  theme: Theme;
+  /** Music-reactive mode: beats pulse the bloom and the star. */
+  audio?: AudioReactor | null;
+  /** Presentation mode: a scripted camera move that overrides hand control while set. */
+  cameraShot?: CameraShot | null;
+  /** Decorate mode: the tree holds still and a pinch drags photos and ornaments between slots. */
+  isDecorating?: boolean;
+  /** Tree slot of every photo and ornament. */
+  slots: Map<string, number>;
+  slotCount: number;
+  ornaments: Ornament[];
+  onPlace?: (id: string, slot: number) => void;
+  /** Reduced motion: no idle spin, tumbling, floating, twinkle, beat pulses or film grain; the camera stays put unless zooming, and presentation shots cut to a still framing instead of flying. */
+  reducedMotion?: boolean;
+  particleCount?: number;
 }
 
+const easeLight = (light: THREE.Light | null, target: ThemeLight, alpha: number) => {
+  if (!light) return;
+  easeColor(light.color, target.color, alpha);
+  light.intensity += (target.intensity - light.intensity) * alpha;
+};
+
 const Experience: React.FC<ExperienceProps> = ({ 
   appState, 
   photos, 
   gesture, 
   selectedPhotoId, 
-  onPhotoSelect,
-  setAppState 
+  onHoverChange,
+  layout,
+  seed,
+  quality,
+  theme,
+  audio,
+  cameraShot,
+  isDecorating = false,
+  slots,
+  slotCount,
+  ornaments,
+  onPlace,
+  reducedMotion = false,
+  particleCount = quality.particleCount
 }) => {
   const { camera } = useThree();
   const groupRef = useRef<THREE.Group>(null);
-  const particlesRef = useRef<THREE.InstancedMesh>(null);
+  const starRef = useRef<THREE.Mesh>(null);
+  const cursorRef = useRef<THREE.Mesh>(null);
+  const backgroundRef = useRef<THREE.Color>(null);
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const pointRef = useRef<THREE.PointLight>(null);
+  const spotRef = useRef<THREE.SpotLight>(null);
+  const starMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const cursorMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const bloomRef = useRef<React.ComponentRef<typeof Bloom>>(null);
+  const starGlowRef = useRef(theme.star.emissiveIntensity);
+  // Colors are set once from here; later theme changes fade in from useFrame
+  const [initialTheme] = useState(theme);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const pointer = useMemo(() => new THREE.Vector2(), []);
+  const hoveredRef = useRef<string | null>(null);
+  const [hoveredPhotoId, setHoveredPhotoId] = useState<string | null>(null);
+  const zoomRef = useRef(1);
+  const spreadStartRef = useRef<{ span: number; zoom: number } | null>(null);
+  const twistRef = useRef<number | null>(null);
+  const tiltRef = useRef(0);
+  const [residentIds, setResidentIds] = useState<Set<string>>(() => new Set());
+  const textureCheckRef = useRef(0);
+  const worldPos = useMemo(() => new THREE.Vector3(), []);
+  const shotPosition = useMemo(() => new THREE.Vector3(), []);
+  const shotTarget = useMemo(() => new THREE.Vector3(), []);
+  const lookTarget = useMemo(() => new THREE.Vector3(), []);
+  const localRay = useMemo(() => new THREE.Ray(), []);
+  const inverseGroup = useMemo(() => new THREE.Matrix4(), []);
+  // Decorate mode drag: the held item, where it is (tree space) and the slot it would drop into
+  const dragRef = useRef<{ id: string; slot: number } | null>(null);
+  const dragPoint = useMemo(() => new THREE.Vector3(), []);
+  const wasGrabbingRef = useRef(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [decorHoverId, setDecorHoverId] = useState<string | null>(null);
+  const dropMarkerRef = useRef<THREE.Mesh>(null);
   
   // Christmas Tree Shape Parameters
-  const count = 350;
-  const baseRadius = 4;
-  const height = 10;
-
-  // Generate targets for the "Closed" state (Tree shape)
-  const treePositions = useMemo(() => {
-    const pos = [];
-    for (let i = 0; i < count; i++) {
-      const h = (i / count) * height;
-      const radius = ((height - h) / height) * baseRadius;
-      const angle = i * 0.4; // Spiral effect
-      pos.push(new THREE.Vector3(
-        Math.cos(angle) * radius,
-        h - height / 2,
-        Math.sin(angle) * radius
-      ));
-    }
-    return pos;
-  }, [count, height, baseRadius]);
+  const count = particleCount;
+
+  // Generate targets for the "Closed" state: particles and photo slots come from one layout,
+  // and switching layouts morphs because everything lerps toward the new targets
+  const treeLayout = useMemo(
+    () => generateLayout(layout.kind, { ...DEFAULT_LAYOUT_PARAMS, count, source: layout.source }),
+    [layout.kind, layout.source, count]
+  );
+  const treePositions = treeLayout.particles;
+  const slotPositions = useMemo(
+    () => Array.from({ length: slotCount }, (_, i) => treeLayout.photoSlot(i)),
+    [treeLayout, slotCount]
+  );
+  const [initialStarPosition] = useState(() => treeLayout.starPosition.toArray());
 
   // Scatter positions
-  const scatterPositions = useMemo(() => {
-    return Array.from({ length: count }).map(() => new THREE.Vector3(
-      (Math.random() - 0.5) * 30,
-      (Math.random() - 0.5) * 30,
-      (Math.random() - 0.5) * 30
-    ));
-  }, [count]);
+  const scatterPositions = useMemo(
+    () => generateScatter(count, 30, createRandom(seed, 'scatter')),
+    [count, seed]
+  );
 
-  const currentTargets = appState === AppState.CLOSED ? treePositions : scatterPositions;
+  // Each photo's (and ornament's) scatter spot is derived from its id, so adding one never moves the others
+  const photoScatter = useMemo(
+    () => new Map([...photos, ...ornaments].map(p => [p.id, generateScatter(1, 20, createRandom(seed, 'photo', p.id))[0]])),
+    [photos, ornaments, seed]
+  );
 
-  // Initialize particles
+  // Leaving decorate mode drops whatever was held without moving it
   useEffect(() => {
-    if (!particlesRef.current) return;
-    const dummy = new THREE.Object3D();
-    for (let i = 0; i < count; i++) {
-      dummy.position.copy(treePositions[i]);
-      dummy.scale.setScalar(0.2 + Math.random() * 0.3);
-      dummy.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-      dummy.updateMatrix();
-      particlesRef.current.setMatrixAt(i, dummy.matrix);
-      
-      // Color: Dark Green, Metallic Gold, Red
-      const color = new THREE.Color();
-      const r = Math.random();
-      if (r < 0.6) color.set('#1B4D3E'); // Matte Green
-      else if (r < 0.85) color.set('#D4AF37'); // Gold
-      else color.set('#B22222'); // Red
-      particlesRef.current.setColorAt(i, color);
+    if (isDecorating) return;
+    dragRef.current = null;
+    setDraggingId(null);
+    setDecorHoverId(null);
+    if (dropMarkerRef.current) dropMarkerRef.current.visible = false;
+  }, [isDecorating]);
+
+  /** Decorate mode picking and dragging; expects `raycaster` to be aimed from the hand already. */
+  const updateDrag = (isGrabbing: boolean) => {
+    const group = groupRef.current;
+    const wasGrabbing = wasGrabbingRef.current;
+    wasGrabbingRef.current = isGrabbing;
+    if (!group) return;
+
+    const drag = dragRef.current;
+    if (!drag) {
+      const hits = isOnScreen(pointer) ? raycaster.intersectObjects(group.children, true) : [];
+      const hovered = hits.length > 0 ? findItemId(hits[0].object) : null;
+      if (hovered !== decorHoverId) setDecorHoverId(hovered);
+      // Only a pinch that starts over an item picks it up
+      if (hovered && isGrabbing && !wasGrabbing) {
+        dragRef.current = { id: hovered, slot: slots.get(hovered) ?? -1 };
+        setDraggingId(hovered);
+      }
+      return;
+    }
+
+    if (!isGrabbing) {
+      if (drag.slot >= 0) onPlace?.(drag.id, drag.slot);
+      dragRef.current = null;
+      setDraggingId(null);
+      if (dropMarkerRef.current) dropMarkerRef.current.visible = false;
+      return;
+    }
+
+    // Follow the hand across the tree surface and preview the slot it would snap to
+    inverseGroup.copy(group.matrixWorld).invert();
+    localRay.copy(raycaster.ray).applyMatrix4(inverseGroup);
+    projectOntoSurface(localRay, slotPositions, dragPoint);
+    const occupied = new Set<number>();
+    slots.forEach((slot, id) => {
+      if (id !== drag.id) occupied.add(slot);
+    });
+    drag.slot = nearestFreeSlot(dragPoint, slotPositions, occupied);
+    if (dropMarkerRef.current) {
+      dropMarkerRef.current.visible = drag.slot >= 0;
+      if (drag.slot >= 0) {
+        dropMarkerRef.current.position.copy(slotPositions[drag.slot]);
+        dropMarkerRef.current.lookAt(camera.position);
+      }
     }
-    particlesRef.current.instanceMatrix.needsUpdate = true;
-    if (particlesRef.current.instanceColor) particlesRef.current.instanceColor.needsUpdate = true;
-  }, [treePositions, count]);
+  };
 
   // Main animation loop
   useFrame((state, delta) => {
-    // 1. Particle Movement
-    if (particlesRef.current) {
-      const dummy = new THREE.Object3D();
-      const mat = new THREE.Matrix4();
-      for (let i = 0; i < count; i++) {
-        particlesRef.current.getMatrixAt(i, mat);
-        dummy.matrix.copy(mat);
-        dummy.matrix.decompose(dummy.position, dummy.quaternion, dummy.scale);
-        
-        // Lerp towards target
-        const target = currentTargets[i];
-        dummy.position.lerp(target, delta * 2.5);
-        
-        // Add subtle floating if scattered
-        if (appState === AppState.SCATTERED) {
-            dummy.position.y += Math.sin(state.clock.elapsedTime + i) * 0.005;
-            dummy.rotation.x += delta * 0.2;
-        }
+    // 1. Particle movement runs on the GPU (see OrnamentParticles)
 
-        dummy.updateMatrix();
-        particlesRef.current.setMatrixAt(i, dummy.matrix);
+    // 2. Camera control: a scripted shot in presentation mode, otherwise the hand
+    if (cameraShot) {
+      // Reduced motion holds each shot's opening framing
+      const t = reducedMotion ? 0 : (performance.now() - cameraShot.startedAt) / (cameraShot.seconds * 1000);
+      const star = starRef.current ? starRef.current.getWorldPosition(worldPos) : worldPos.copy(treeLayout.starPosition);
+      sampleCameraPath(cameraShot.path, t, star, shotPosition, shotTarget);
+      if (reducedMotion) {
+        // A cut rather than a glide between shots
+        camera.position.copy(shotPosition);
+        lookTarget.copy(shotTarget);
+      } else {
+        // Ease toward the path so cuts between shots (and from hand control) stay smooth
+        const ease = Math.min(delta * 2, 1);
+        camera.position.lerp(shotPosition, ease);
+        lookTarget.lerp(shotTarget, ease);
+      }
+      camera.lookAt(lookTarget);
+    } else if (isDecorating) {
+      // A steady view so the hand can aim at slots
+      lookTarget.set(0, 0, 0);
+      camera.position.lerp(DECORATE_CAMERA, Math.min(delta * 2, 1));
+      camera.lookAt(lookTarget);
+    } else if (gesture && !selectedPhotoId) {
+      lookTarget.set(0, 0, 0);
+      const other = gesture.otherHand;
+      if (other) {
+        // Two hands: spread apart to zoom in, twist to spin the tree
+        const left = gesture.handedness === 'Left' ? gesture : other;
+        const right = left === gesture ? other : gesture;
+        const span = handSpan(left, right);
+        if (!spreadStartRef.current) spreadStartRef.current = { span, zoom: zoomRef.current };
+        zoomRef.current = THREE.MathUtils.clamp(
+          spreadStartRef.current.zoom * spreadStartRef.current.span / span,
+          MIN_ZOOM,
+          MAX_ZOOM
+        );
+
+        const twist = handTwist(left, right);
+        if (twistRef.current !== null && groupRef.current) {
+          groupRef.current.rotation.y += wrapAngle(twist - twistRef.current);
+        }
+        twistRef.current = twist;
+      } else {
+        spreadStartRef.current = null;
+        twistRef.current = null;
       }
-      particlesRef.current.instanceMatrix.needsUpdate = true;
-    }
 
-    // 2. Camera control via gesture
-    if (gesture && !selectedPhotoId) {
-      const targetX = (gesture.position.x - 0.5) * 15;
-      const targetY = (0.5 - gesture.position.y) * 15 + 5;
-      camera.position.lerp(new THREE.Vector3(targetX, targetY, 20), delta * 2);
+      // Reduced motion keeps the default framing instead of drifting after the hand
+      const targetX = reducedMotion ? 0 : (gesture.position.x - 0.5) * 15;
+      const targetY = reducedMotion ? 5 : (0.5 - gesture.position.y) * 15 + 5;
+      camera.position.lerp(new THREE.Vector3(targetX, targetY, 20).multiplyScalar(zoomRef.current), delta * 2);
       camera.lookAt(0, 0, 0);
+
+      // One hand: rolling the palm tilts the view
+      const roll = gesture.rotation.z;
+      const targetTilt = reducedMotion || other || Math.abs(roll) < TILT_DEAD_ZONE
+        ? 0
+        : THREE.MathUtils.clamp(roll - Math.sign(roll) * TILT_DEAD_ZONE, -MAX_TILT, MAX_TILT);
+      tiltRef.current = THREE.MathUtils.lerp(tiltRef.current, targetTilt, Math.min(delta * 3, 1));
+      camera.rotateZ(tiltRef.current);
+    }
+
+    // Star follows the top of the current layout
+    if (starRef.current) starRef.current.position.lerp(treeLayout.starPosition, delta * 2.5);
+
+    // Theme cross-fade
+    const themeAlpha = themeEase(delta);
+    if (backgroundRef.current) easeColor(backgroundRef.current, theme.background, themeAlpha);
+    easeLight(ambientRef.current, theme.lights.ambient, themeAlpha);
+    easeLight(pointRef.current, theme.lights.point, themeAlpha);
+    easeLight(spotRef.current, theme.lights.spot, themeAlpha);
+    starGlowRef.current += (theme.star.emissiveIntensity - starGlowRef.current) * themeAlpha;
+    // Reduced motion keeps the music but drops the pulses it drives
+    const beat = reducedMotion ? 0 : audio?.update(state.clock.elapsedTime).beat ?? 0;
+    if (starMaterialRef.current) {
+      easeColor(starMaterialRef.current.color, theme.star.color, themeAlpha);
+      easeColor(starMaterialRef.current.emissive, theme.star.color, themeAlpha);
+      starMaterialRef.current.emissiveIntensity = starGlowRef.current * (1 + beat * 1.5);
     }
+    if (bloomRef.current) bloomRef.current.intensity = theme.postprocessing.bloomIntensity * (1 + beat * 0.8);
+    if (cursorMaterialRef.current) easeColor(cursorMaterialRef.current.color, theme.cursor, themeAlpha);
 
     // 3. Rotating the whole group
-    if (groupRef.current && appState === AppState.CLOSED) {
+    if (isDecorating) {
+      // Only turns on request, from the screen edges
+      if (gesture && groupRef.current) {
+        handToNdc(gesture.position, pointer);
+        const edge = Math.abs(pointer.x) - EDGE_ROTATE_ZONE;
+        if (edge > 0) groupRef.current.rotation.y += Math.sign(pointer.x) * edge / (1 - EDGE_ROTATE_ZONE) * EDGE_ROTATE_SPEED * delta;
+      }
+    } else if (reducedMotion) {
+      // No idle spin; a two-hand twist still turns the tree
+    } else if (groupRef.current && appState === AppState.CLOSED) {
       groupRef.current.rotation.y += delta * 0.5;
     } else if (groupRef.current && appState === AppState.SCATTERED) {
         groupRef.current.rotation.y += delta * 0.1;
     }
-  });
 
-  // Photo Selection Logic
-  useEffect(() => {
-    if (gesture?.isGrabbing && appState === AppState.SCATTERED && !selectedPhotoId) {
-       // Simplistic proximity grab
-       // Real picking would use Raycaster from hand position
-       // Here we auto-pick the first visible one for demo purposes if none selected
-       if (photos.length > 0) {
-          onPhotoSelect(photos[0].id);
-          setAppState(AppState.ZOOMED);
-       }
+    // 4. Hand cursor and photo picking
+    let hovered: string | null = null;
+    if (gesture && !selectedPhotoId && groupRef.current) {
+      handToNdc(gesture.position, pointer);
+      raycaster.setFromCamera(pointer, camera);
+      if (cursorRef.current) {
+        cursorRef.current.visible = isOnScreen(pointer);
+        raycaster.ray.at(CURSOR_DISTANCE, cursorRef.current.position);
+      }
+      if (isDecorating) {
+        updateDrag(gesture.isGrabbing);
+      } else if (appState === AppState.SCATTERED && isOnScreen(pointer)) {
+        // Only the nearest hit counts, so photos behind ornaments, the star or other photos are not pickable
+        const hits = raycaster.intersectObjects(groupRef.current.children, true);
+        hovered = hits.length > 0 ? findPhotoId(hits[0].object) : null;
+      }
+    } else {
+      if (cursorRef.current) cursorRef.current.visible = false;
+      // Losing the hand mid-drag drops the item where it was headed
+      if (dragRef.current) updateDrag(false);
+    }
+    if (hovered !== hoveredRef.current) {
+      hoveredRef.current = hovered;
+      setHoveredPhotoId(hovered);
+      onHoverChange(hovered);
+    }
+
+    // 5. Keep full-resolution textures only for the photos nearest the camera
+    textureCheckRef.current -= delta;
+    if (textureCheckRef.current <= 0 && groupRef.current) {
+      textureCheckRef.current = TEXTURE_CHECK_INTERVAL;
+      const bytesById = new Map(photos.map(p => [p.id, p.textureBytes]));
+      const candidates: TextureCandidate[] = [];
+      groupRef.current.children.forEach(child => {
+        const id = child.userData.photoId;
+        if (typeof id !== 'string' || !bytesById.has(id)) return;
+        candidates.push({
+          id,
+          bytes: bytesById.get(id)!,
+          distance: child.getWorldPosition(worldPos).distanceTo(camera.position),
+          pinned: id === hoveredRef.current || id === selectedPhotoId,
+        });
+      });
+      const next = allocateTextures(candidates);
+      setResidentIds(prev =>
+        prev.size === next.size && [...next].every(id => prev.has(id)) ? prev : next
+      );
     }
-  }, [gesture?.isGrabbing, photos, appState, selectedPhotoId]);
+  });
 
   return (
     <>
-      <ambientLight intensity={0.4} />
-      <pointLight position={[10, 10, 10]} intensity={2} color="#D4AF37" />
-      <spotLight position={[-10, 20, 10]} angle={0.15} penumbra={1} intensity={1.5} castShadow />
+      <color ref={backgroundRef} attach="background" args={[initialTheme.background]} />
+      <ambientLight ref={ambientRef} intensity={initialTheme.lights.ambient.intensity} color={initialTheme.lights.ambient.color} />
+      <pointLight ref={pointRef} position={[10, 10, 10]} intensity={initialTheme.lights.point.intensity} color={initialTheme.lights.point.color} />
+      <spotLight
+        ref={spotRef}
+        position={[-10, 20, 10]}
+        angle={0.15}
+        penumbra={1}
+        intensity={initialTheme.lights.spot.intensity}
+        color={initialTheme.lights.spot.color}
+        castShadow={quality.shadows}
+      />
 
       <group ref={groupRef}>
         {/* Decorative Particles (Spheres/Cubes) */}
-        <instancedMesh ref={particlesRef} args={[undefined, undefined, count]} castShadow receiveShadow>
-          <sphereGeometry args={[1, 16, 16]} />
-          <meshStandardMaterial metalness={0.7} roughness={0.3} />
-        </instancedMesh>
+        <OrnamentParticles
+          count={count}
+          treePositions={treePositions}
+          scatterPositions={scatterPositions}
+          isScattered={appState !== AppState.CLOSED}
+          isFloating={appState === AppState.SCATTERED && !reducedMotion}
+          seed={seed}
+          palette={theme.palette}
+          metalness={theme.ornaments.metalness}
+          roughness={theme.ornaments.roughness}
+          sparkle={reducedMotion ? 0 : theme.ornaments.sparkle}
+          audio={audio}
+          reducedMotion={reducedMotion}
+        />
 
         {/* Photo Cloud */}
         {photos.map((photo, index) => (
           <PhotoItem 
             key={photo.id}
-            url={photo.url}
+            photoId={photo.id}
+            textureUrl={photo.textureUrl}
+            thumbnailUrl={photo.thumbnailUrl}
+            aspect={photo.aspect}
+            isTextureResident={residentIds.has(photo.id)}
             isScattered={appState !== AppState.CLOSED}
-            index={index}
-            total={photos.length}
+            treePosition={slotPositions[slots.get(photo.id) ?? index]}
+            scatterPosition={photoScatter.get(photo.id)!}
             isZoomed={selectedPhotoId === photo.id}
+            isHovered={hoveredPhotoId === photo.id || (isDecorating && decorHoverId === photo.id)}
+            frame={theme.frame}
+            placeholder={theme.placeholder}
+            dragPosition={draggingId === photo.id ? dragPoint : null}
+            isSpinning={!reducedMotion}
           />
         ))}
 
+        {/* Ornaments added in decorate mode */}
+        {ornaments.map(ornament => (
+          <OrnamentItem
+            key={ornament.id}
+            ornamentId={ornament.id}
+            kind={ornament.kind}
+            isScattered={appState !== AppState.CLOSED}
+            treePosition={slotPositions[slots.get(ornament.id) ?? 0]}
+            scatterPosition={photoScatter.get(ornament.id)!}
+            isHovered={isDecorating && decorHoverId === ornament.id}
+            dragPosition={draggingId === ornament.id ? dragPoint : null}
+            isSpinning={!reducedMotion}
+            metalness={theme.ornaments.metalness}
+            roughness={theme.ornaments.roughness}
+          />
+        ))}
+
+        {/* Where a dragged item will land */}
+        <mesh ref={dropMarkerRef} visible={false} raycast={() => null} layers={CAPTURE_UI_LAYER}>
+          <ringGeometry args={[0.5, 0.6, 32]} />
+          <meshBasicMaterial color={initialTheme.cursor} transparent opacity={0.8} toneMapped={false} side={THREE.DoubleSide} />
+        </mesh>
+
         {/* Top Star */}
-        <mesh position={[0, height/2 + 0.5, 0]}>
+        <mesh ref={starRef} position={initialStarPosition}>
           <octahedronGeometry args={[0.8, 0]} />
           <meshStandardMaterial 
-            color="#FFD700" 
-            emissive="#FFD700" 
-            emissiveIntensity={4} 
+            ref={starMaterialRef}
+            color={initialTheme.star.color} 
+            emissive={initialTheme.star.color} 
+            emissiveIntensity={initialTheme.star.emissiveIntensity} 
             metalness={1} 
             roughness={0} 
           />
         </mesh>
       </group>
 
-      {/* Post Processing for Glow */}
-      <EffectComposer disableNormalPass>
-        <Bloom 
-          luminanceThreshold={0.5} 
-          mipmapBlur 
-          intensity={1.2} 
-          radius={0.4} 
-        />
-        <Noise opacity={0.05} />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
-      </EffectComposer>
+      {/* Hand Cursor (outside the rotating group, ignored by picking, optional in captures) */}
+      <mesh ref={cursorRef} visible={false} raycast={() => null} layers={CAPTURE_UI_LAYER}>
+        <sphereGeometry args={[0.12, 16, 16]} />
+        <meshBasicMaterial ref={cursorMaterialRef} color={initialTheme.cursor} transparent opacity={0.9} toneMapped={false} />
+      </mesh>
+
+      {/* Post Processing for Glow; passes are dropped on lower quality tiers */}
+      {(quality.bloom || (quality.noise && !reducedMotion) || quality.vignette) && (
+        <EffectComposer>
+          {quality.bloom && (
+            <Bloom 
+              ref={bloomRef}
+              luminanceThreshold={theme.postprocessing.bloomThreshold} 
+              mipmapBlur={quality.bloomMipmapBlur} 
+              intensity={theme.postprocessing.bloomIntensity} 
+              radius={theme.postprocessing.bloomRadius} 
+            />
+          )}
+          {quality.noise && !reducedMotion && theme.postprocessing.noiseOpacity > 0 && <Noise opacity={theme.postprocessing.noiseOpacity} />}
+          {quality.vignette && (
+            <Vignette eskil={false} offset={theme.postprocessing.vignetteOffset} darkness={theme.postprocessing.vignetteDarkness} />
+          )}
+        </EffectComposer>
+      )}
     </>
   );
 };
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { GestureKind } from '../types';
+import { ACTION_LABELS, GESTURE_LABELS, GestureAction, GestureBindings } from '../utils/gestureBindings';
+
+interface GestureGuideProps {
+  bindings: GestureBindings;
+  /** False while controlling a display window, which leaves nothing here to capture. */
+  canCapture: boolean;
+  onOpenSettings: () => void;
+}
+
+// Continuous controls handled by the scene itself; these are not rebindable
+const FIXED_ROWS: [string, string, GestureAction?][] = [
+  ['👋 Move Hand', 'Rotate View'],
+  ['🤚 Roll Palm', 'Tilt View'],
+  ['🙌 Spread Hands', 'Zoom In/Out'],
+  ['🔄 Twist Hands', 'Spin Tree'],
+  ['✊✊ Hold Both Fists', 'Snapshot', 'capture'],
+];
+
+/** On-screen cheat sheet, generated from the current gesture bindings. */
+const GestureGuide: React.FC<GestureGuideProps> = ({ bindings, canCapture, onOpenSettings }) => {
+  const isShown = (action?: GestureAction) => action !== 'none' && (canCapture || action !== 'capture');
+  const bound = (Object.keys(GESTURE_LABELS) as GestureKind[]).filter(gesture => isShown(bindings[gesture]));
+  const fixed = FIXED_ROWS.filter(([, , action]) => isShown(action));
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 p-4 rounded-2xl w-64 text-white pointer-events-auto">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xs font-bold text-yellow-500 uppercase tracking-widest">Gesture Guide</h3>
+        <button onClick={onOpenSettings} title="Gesture settings" className="p-1 -m-1 hover:bg-white/10 rounded-full">
+          <Cog6ToothIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="text-xs space-y-2 opacity-80">
+        {bound.map(gesture => (
+          <li key={gesture} className="flex justify-between">
+            <span>{GESTURE_LABELS[gesture]}</span> <span className="text-green-400">{ACTION_LABELS[bindings[gesture]]}</span>
+          </li>
+        ))}
+        {fixed.map(([gesture, action]) => (
+          <li key={gesture} className="flex justify-between">
+            <span>{gesture}</span> <span className="text-green-400">{action}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default GestureGuide;
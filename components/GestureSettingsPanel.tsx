@@ -0,0 +1,105 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { GestureKind, HandGesture } from '../types';
+import { GestureRecognizerOptions } from '../utils/gestureRecognizer';
+import { ACTION_LABELS, GESTURE_LABELS, GestureAction, GestureBindings } from '../utils/gestureBindings';
+import CalibrationWizard from './CalibrationWizard';
+
+interface GestureSettingsPanelProps {
+  bindings: GestureBindings;
+  onBindingsChange: (bindings: GestureBindings) => void;
+  onResetBindings: () => void;
+  isCalibrated: boolean;
+  /** Calibration needs live landmarks, so it is only offered while the camera runs. */
+  canCalibrate: boolean;
+  gesture: HandGesture | null;
+  onCalibrationChange: (options: Partial<GestureRecognizerOptions> | null) => void;
+  /** Whether the calibration wizard is open; gesture actions are paused meanwhile. */
+  isCalibrating: boolean;
+  onCalibratingChange: (isCalibrating: boolean) => void;
+  onClose: () => void;
+}
+
+const GestureSettingsPanel: React.FC<GestureSettingsPanelProps> = ({
+  bindings,
+  onBindingsChange,
+  onResetBindings,
+  isCalibrated,
+  canCalibrate,
+  gesture,
+  onCalibrationChange,
+  isCalibrating,
+  onCalibratingChange,
+  onClose,
+}) => {
+  return (
+    <div className="absolute top-24 left-6 bottom-48 w-80 bg-black/70 backdrop-blur-md border border-white/10 rounded-2xl text-white pointer-events-auto flex flex-col z-40">
+      <div className="flex justify-between items-center p-4 pb-2">
+        <h3 className="text-xs font-bold text-yellow-500 uppercase tracking-widest">Gesture Settings</h3>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-4">
+        <section>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-white/50 mb-2">Calibration</h4>
+          {isCalibrating ? (
+            <CalibrationWizard
+              gesture={gesture}
+              onComplete={options => {
+                onCalibrationChange(options);
+                onCalibratingChange(false);
+              }}
+              onCancel={() => onCalibratingChange(false)}
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-xs text-white/70">{isCalibrated ? 'Personal thresholds' : 'Default thresholds'}</span>
+              <button
+                onClick={() => onCalibratingChange(true)}
+                disabled={!canCalibrate}
+                title={canCalibrate ? undefined : 'Start the camera to calibrate'}
+                className="px-3 py-1 text-[10px] uppercase tracking-widest rounded-full border border-yellow-600/50 bg-yellow-600/20 text-yellow-500 hover:bg-yellow-600/40 disabled:opacity-30"
+              >
+                Calibrate
+              </button>
+              {isCalibrated && (
+                <button onClick={() => onCalibrationChange(null)} className="px-2 py-1 text-[10px] uppercase tracking-widest rounded-full hover:bg-white/10">
+                  Reset
+                </button>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-white/50">Bindings</h4>
+            <button onClick={onResetBindings} className="text-[10px] uppercase tracking-widest text-white/50 hover:text-white">
+              Defaults
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {(Object.keys(GESTURE_LABELS) as GestureKind[]).map(gestureKind => (
+              <li key={gestureKind} className="flex items-center gap-2 text-xs">
+                <span className="flex-1">{GESTURE_LABELS[gestureKind]}</span>
+                <select
+                  value={bindings[gestureKind]}
+                  onChange={e => onBindingsChange({ ...bindings, [gestureKind]: e.target.value as GestureAction })}
+                  className="w-36 bg-black/60 border border-white/20 rounded-lg px-2 py-1 text-xs"
+                >
+                  {(Object.keys(ACTION_LABELS) as GestureAction[]).map(action => (
+                    <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default GestureSettingsPanel;
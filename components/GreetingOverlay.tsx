@@ -0,0 +1,29 @@
+import React from 'react';
+import { GiftIcon } from '@heroicons/react/24/outline';
+import { ReceivedGreeting } from '../hooks/useGreetingBundle';
+
+interface GreetingOverlayProps {
+  greeting: ReceivedGreeting;
+  /** Starting the music needs a click, so it happens when the greeting is dismissed. */
+  onStart: (music: File | null) => void;
+}
+
+/** Shown once after opening a shared greeting. */
+const GreetingOverlay: React.FC<GreetingOverlayProps> = ({ greeting, onStart }) => (
+  <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+    <div className="flex flex-col items-center gap-4 max-w-md px-8 py-6 text-center">
+      <GiftIcon className="w-12 h-12 text-yellow-500" />
+      {greeting.message && (
+        <p className="text-2xl text-white italic whitespace-pre-line drop-shadow-lg">{greeting.message}</p>
+      )}
+      <button
+        onClick={() => onStart(greeting.music)}
+        className="bg-yellow-600/20 hover:bg-yellow-600/40 border border-yellow-600/50 text-yellow-500 px-6 py-2 rounded-full text-sm font-medium"
+      >
+        {greeting.music ? 'Open with music' : 'Open'}
+      </button>
+    </div>
+  </div>
+);
+
+export default GreetingOverlay;
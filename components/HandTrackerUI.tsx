@@ -1,147 +1,303 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { HandGesture } from '../types';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
+import { CameraSettings, GestureEvent, HandGesture, Landmark, TrackingErrorKind } from '../types';
+import { DEFAULT_RECOGNIZER_OPTIONS, GestureRecognizerOptions, MultiHandRecognizer, TrackedHand } from '../utils/gestureRecognizer';
+import { LandmarkRecorder, downloadSession } from '../utils/landmarkSession';
+import { drawHand } from '../utils/drawHand';
+import { createHands, Hands, HandsResults } from '../utils/handsSolution';
+import { CameraLoop, startCameraLoop } from '../utils/cameraLoop';
+import {
+  TRACKING_ERROR_MESSAGES,
+  classifyTrackingError,
+  listCameras,
+  loadCameraSettings,
+  saveCameraSettings,
+} from '../utils/cameraDevices';
+import { DiagnosticsCollector, TrackingDiagnostics } from '../utils/trackingDiagnostics';
+import CameraPicker from './CameraPicker';
+import TrackingDiagnosticsPanel from './TrackingDiagnosticsPanel';
 
 interface HandTrackerUIProps {
   onGesture: (gesture: HandGesture) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
   onActiveChange: (active: boolean) => void;
+  onError?: (kind: TrackingErrorKind, error: unknown) => void;
+  /** Switches to a non-camera input when the user gives up on the camera. */
+  onFallback?: () => void;
+  /** MediaPipe model: 0 (lite) is cheaper, 1 (full) tracks more reliably. */
+  modelComplexity?: 0 | 1;
+  /** Personal thresholds from calibration; defaults when null. */
+  recognizerOptions?: Partial<GestureRecognizerOptions> | null;
 }
 
-const HandTrackerUI: React.FC<HandTrackerUIProps> = ({ onGesture, onActiveChange }) => {
+// How often the open diagnostics panel re-renders with the latest measurements
+const DIAGNOSTICS_INTERVAL_MS = 250;
+
+const HandTrackerUI: React.FC<HandTrackerUIProps> = ({
+  onGesture,
+  onGestureEvent,
+  onActiveChange,
+  onError,
+  onFallback,
+  modelComplexity = 1,
+  recognizerOptions,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const recognizerRef = useRef(new MultiHandRecognizer());
+  const recorderRef = useRef(new LandmarkRecorder());
+  const handsRef = useRef<Hands | null>(null);
+  const modelComplexityRef = useRef(modelComplexity);
+  modelComplexityRef.current = modelComplexity;
+  const diagnosticsRef = useRef(new DiagnosticsCollector());
+  const latestDiagnosticsRef = useRef<TrackingDiagnostics | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  // Callbacks are read through refs because MediaPipe is only wired up once
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
+  const onGestureEventRef = useRef(onGestureEvent);
+  onGestureEventRef.current = onGestureEvent;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TrackingErrorKind | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  // What the running stream was granted; its device id stands in when none was chosen
+  const [activeTrack, setActiveTrack] = useState<MediaTrackSettings | null>(null);
+  // Bumped by Retry to rerun the setup with the same settings
+  const [attempt, setAttempt] = useState(0);
+  const [showPanel, setShowPanel] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<TrackingDiagnostics | null>(null);
+
+  const updateCameraSettings = (settings: CameraSettings) => {
+    saveCameraSettings(settings);
+    setCameraSettings(settings);
+  };
+
+  const refreshCameras = () => {
+    listCameras().then(setCameras).catch(err => console.warn('Could not list cameras', err));
+  };
 
   useEffect(() => {
-    let hands: any = null;
-    let camera: any = null;
+    refreshCameras();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshCameras);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshCameras);
+  }, []);
+
+  useEffect(() => {
+    let hands: Hands | null = null;
+    let camera: CameraLoop | null = null;
+    // Set on unmount; setup may still be awaiting the model or the camera
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    setActiveTrack(null);
+    diagnosticsRef.current.reset();
+    latestDiagnosticsRef.current = null;
 
     const setupMediaPipe = async () => {
       try {
-        // @ts-ignore
-        hands = new window.Hands({
-          locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-        });
-
-        hands.setOptions({
-          maxNumHands: 1,
-          modelComplexity: 1,
+        hands = await createHands({
+          maxNumHands: 2,
+          modelComplexity: modelComplexityRef.current,
           minDetectionConfidence: 0.6,
           minTrackingConfidence: 0.6,
         });
+        if (cancelled) {
+          hands.close();
+          return;
+        }
+
+        handsRef.current = hands;
 
-        hands.onResults((results: any) => {
-          if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-            const landmarks = results.multiHandLandmarks[0];
-            
-            // Analyze gestures
-            // Fist: Tips of fingers are close to palm bases
-            const isFist = analyzeFist(landmarks);
-            const isOpen = analyzeOpenHand(landmarks);
-            const isGrabbing = analyzeGrabbing(landmarks);
-            
-            // Get hand center for positioning
-            const palmBase = landmarks[0];
-            const middleBase = landmarks[9];
-            const posX = (palmBase.x + middleBase.x) / 2;
-            const posY = (palmBase.y + middleBase.y) / 2;
-
-            onGesture({
-              isFist,
-              isOpen,
-              isGrabbing,
-              position: { x: posX, y: posY },
-              rotation: { x: 0, y: 0, z: 0 }, // Simplified
-              rawLandmarks: landmarks
-            });
-
-            // Draw on visual feedback canvas
-            if (canvasRef.current) {
-              const ctx = canvasRef.current.getContext('2d')!;
-              ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-              // Draw landmarks
-              ctx.fillStyle = isFist ? '#EF4444' : (isOpen ? '#10B981' : '#F59E0B');
-              landmarks.forEach((pt: any) => {
-                ctx.beginPath();
-                ctx.arc(pt.x * canvasRef.current!.width, pt.y * canvasRef.current!.height, 3, 0, Math.PI * 2);
-                ctx.fill();
-              });
-            }
+        hands.onResults((results: HandsResults) => {
+          const tracked: (TrackedHand & { score: number })[] = (results.multiHandLandmarks ?? []).map((landmarks: Landmark[], i: number) => ({
+            landmarks,
+            handedness: results.multiHandedness?.[i]?.label === 'Left' ? 'Left' : 'Right',
+            score: results.multiHandedness?.[i]?.score ?? 0,
+          }));
+
+          const now = performance.now();
+          const { gesture, events } = recognizerRef.current.update(tracked, now);
+          recorderRef.current.push(tracked, now);
+          events.forEach(event => onGestureEventRef.current?.(event));
+          diagnosticsRef.current.handleEvents(events);
+          latestDiagnosticsRef.current = diagnosticsRef.current.update(tracked, now);
+          if (!gesture) {
+            if (canvasRef.current) drawHand(canvasRef.current, null);
+            return;
           }
+
+          onGestureRef.current(gesture);
+
+          // Draw on visual feedback canvas
+          if (canvasRef.current) drawHand(canvasRef.current, gesture);
         });
 
         if (videoRef.current) {
-          // @ts-ignore
-          camera = new window.Camera(videoRef.current, {
-            onFrame: async () => {
-              if (videoRef.current) await hands.send({ image: videoRef.current });
-            },
-            width: 320,
-            height: 240,
+          const video = videoRef.current;
+          camera = await startCameraLoop(video, {
+            onFrame: () => hands?.send({ image: video }),
+            deviceId: cameraSettings.deviceId,
+            width: cameraSettings.width,
+            height: cameraSettings.height,
+            frameRate: cameraSettings.frameRate,
           });
-          camera.start();
+          if (cancelled) {
+            camera.stop();
+            return;
+          }
+          setActiveTrack(camera.settings);
           setIsLoading(false);
           onActiveChange(true);
+          // Device labels are only exposed once permission has been granted
+          refreshCameras();
         }
       } catch (err) {
+        if (cancelled) return;
         console.error(err);
-        setError("Failed to start camera or tracking.");
+        const kind = classifyTrackingError(err);
+        // A remembered camera that is gone: quietly go back to the default one
+        if (kind === 'noDevice' && cameraSettings.deviceId) {
+          updateCameraSettings({ ...cameraSettings, deviceId: null });
+          return;
+        }
+        setIsLoading(false);
+        setError(kind);
+        onErrorRef.current?.(kind, err);
       }
     };
 
     setupMediaPipe();
 
     return () => {
+      cancelled = true;
       if (camera) camera.stop();
       if (hands) hands.close();
+      handsRef.current = null;
+      // Release any held pose so a restart (or switching input) does not leave it stuck
+      const { events } = recognizerRef.current.update([], performance.now());
+      events.forEach(event => onGestureEventRef.current?.(event));
+      onActiveChange(false);
     };
-  }, []);
+  }, [attempt, cameraSettings]);
 
-  // Gesture analysis helpers
-  const dist = (p1: any, p2: any) => Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+  useEffect(() => {
+    if (!showPanel) return;
+    const id = window.setInterval(() => setDiagnostics(latestDiagnosticsRef.current), DIAGNOSTICS_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [showPanel]);
 
-  const analyzeFist = (lm: any) => {
-    const tips = [8, 12, 16, 20]; // index, middle, ring, pinky
-    const bases = [5, 9, 13, 17];
-    const avgDist = tips.reduce((acc, tip, i) => acc + dist(lm[tip], lm[bases[i]]), 0) / 4;
-    return avgDist < 0.12;
-  };
+  useEffect(() => {
+    recognizerRef.current.setOptions(recognizerOptions ?? {});
+  }, [recognizerOptions]);
+
+  // Quality changes swap the model without restarting the camera
+  useEffect(() => {
+    handsRef.current?.setOptions({ modelComplexity });
+  }, [modelComplexity]);
+
+  const activeDeviceId = activeTrack?.deviceId ?? null;
+  const currentDeviceId = cameraSettings.deviceId ?? activeDeviceId;
 
-  const analyzeOpenHand = (lm: any) => {
-    const tips = [8, 12, 16, 20];
-    const bases = [5, 9, 13, 17];
-    const avgDist = tips.reduce((acc, tip, i) => acc + dist(lm[tip], lm[bases[i]]), 0) / 4;
-    return avgDist > 0.25;
+  const switchCamera = () => {
+    const index = cameras.findIndex(camera => camera.deviceId === currentDeviceId);
+    const next = cameras[(index + 1) % cameras.length];
+    if (next) updateCameraSettings({ ...cameraSettings, deviceId: next.deviceId });
   };
 
-  const analyzeGrabbing = (lm: any) => {
-    // Thumb tip to Index tip
-    return dist(lm[4], lm[8]) < 0.05;
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) {
+      downloadSession(recorder.stop());
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+    }
   };
 
   return (
-    <div className="relative w-48 h-36 bg-black/80 rounded-xl border border-yellow-500/30 overflow-hidden shadow-2xl">
-      <video ref={videoRef} className="hidden" />
-      <canvas 
-        ref={canvasRef} 
-        width={320} 
-        height={240} 
-        className="w-full h-full object-cover opacity-60 scale-x-[-1]" 
-      />
-      {isLoading && (
-        <div className="absolute inset-0 flex flex-col items-center justify-center text-white p-4">
-          <div className="w-6 h-6 border-2 border-yellow-500 border-t-transparent animate-spin rounded-full mb-2" />
-          <span className="text-[10px] uppercase font-bold text-yellow-500 tracking-tighter">Initializing AI...</span>
+    <div className="relative">
+      {showPanel && (
+        <div className="absolute bottom-full left-0 mb-2 bg-black/40 backdrop-blur-md border border-white/10 px-3 py-2 rounded-2xl w-64 text-white space-y-2">
+          <span className="text-[9px] font-bold uppercase tracking-widest text-white/40">Camera</span>
+          <CameraPicker cameras={cameras} settings={cameraSettings} activeDeviceId={activeDeviceId} onChange={updateCameraSettings} />
+          <TrackingDiagnosticsPanel
+            diagnostics={diagnostics}
+            cameraSettings={activeTrack}
+            options={{ ...DEFAULT_RECOGNIZER_OPTIONS, ...recognizerOptions }}
+          />
         </div>
       )}
-      {error && (
-        <div className="absolute inset-0 flex items-center justify-center text-red-500 text-[10px] p-2 text-center">
-          {error}
+      <div className="relative w-48 h-36 bg-black/80 rounded-xl border border-yellow-500/30 overflow-hidden shadow-2xl">
+        <video ref={videoRef} className="hidden" />
+        <canvas 
+          ref={canvasRef} 
+          width={320} 
+          height={240} 
+          className="w-full h-full object-cover opacity-60 scale-x-[-1]" 
+        />
+        {isLoading && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-white p-4">
+            <div className="w-6 h-6 border-2 border-yellow-500 border-t-transparent motion-safe:animate-spin rounded-full mb-2" />
+            <span className="text-[10px] uppercase font-bold text-yellow-500 tracking-tighter">Initializing AI...</span>
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-2 text-center">
+            <span className="text-red-500 text-[10px]">{TRACKING_ERROR_MESSAGES[error]}</span>
+            <div className="flex flex-wrap justify-center gap-1">
+              <button
+                onClick={() => setAttempt(n => n + 1)}
+                className="px-2 py-0.5 rounded-full border border-white/10 bg-black/50 text-[8px] font-bold text-white uppercase tracking-widest hover:bg-black/70"
+              >
+                Retry
+              </button>
+              {cameras.length > 1 && (
+                <button
+                  onClick={switchCamera}
+                  className="px-2 py-0.5 rounded-full border border-white/10 bg-black/50 text-[8px] font-bold text-white uppercase tracking-widest hover:bg-black/70"
+                >
+                  Switch camera
+                </button>
+              )}
+              {onFallback && (
+                <button
+                  onClick={onFallback}
+                  className="px-2 py-0.5 rounded-full border border-yellow-500 bg-yellow-600/20 text-[8px] font-bold text-yellow-500 uppercase tracking-widest"
+                >
+                  Use pointer
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-black/50 rounded-full border border-white/10">
+            <span className="text-[8px] font-bold text-white uppercase tracking-widest">Hand Cam</span>
         </div>
-      )}
-      <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-black/50 rounded-full border border-white/10">
-          <span className="text-[8px] font-bold text-white uppercase tracking-widest">Hand Cam</span>
+        <button
+          onClick={() => setShowPanel(show => !show)}
+          title={showPanel ? 'Hide camera settings' : 'Camera settings and diagnostics'}
+          className={`absolute top-2 left-2 p-1 rounded-full border hover:bg-black/70 ${
+            showPanel ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20' : 'border-white/10 text-white bg-black/50'
+          }`}
+        >
+          <AdjustmentsHorizontalIcon className="w-3 h-3" />
+        </button>
+        {!isLoading && !error && (
+          <button
+            onClick={toggleRecording}
+            title={isRecording ? 'Stop and save session' : 'Record landmark session'}
+            className="absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 bg-black/50 rounded-full border border-white/10 hover:bg-black/70"
+          >
+            <span className={`w-2 h-2 rounded-full bg-red-500 ${isRecording ? 'motion-safe:animate-pulse' : 'opacity-50'}`} />
+            <span className="text-[8px] font-bold text-white uppercase tracking-widest">{isRecording ? 'Stop' : 'Rec'}</span>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,36 @@
+import React from 'react';
+import { InputMode, InputSource } from '../types';
+
+interface InputSourcePickerProps {
+  mode: InputMode;
+  activeSource: InputSource;
+  onChange: (mode: InputMode) => void;
+}
+
+const OPTIONS: { mode: InputMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto' },
+  { mode: 'camera', label: 'Camera' },
+  { mode: 'pointer', label: 'Pointer' },
+  { mode: 'keyboard', label: 'Keys' },
+];
+
+const InputSourcePicker: React.FC<InputSourcePickerProps> = ({ mode, activeSource, onChange }) => (
+  <div className="flex gap-1 mb-2">
+    {OPTIONS.map(option => (
+      <button
+        key={option.mode}
+        onClick={() => onChange(option.mode)}
+        title={option.mode === 'auto' ? `Auto (using ${activeSource})` : undefined}
+        className={`px-2 py-0.5 rounded-full border text-[9px] font-bold uppercase tracking-widest transition-all ${
+          mode === option.mode
+            ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20'
+            : 'border-white/10 text-white/60 bg-black/40 hover:text-white'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default InputSourcePicker;
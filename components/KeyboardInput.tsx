@@ -0,0 +1,83 @@
+import React, { useEffect } from 'react';
+import { CommandLineIcon } from '@heroicons/react/24/outline';
+import { GestureHandlers, PoseKind } from '../types';
+import { useSyntheticHand } from '../hooks/useSyntheticHand';
+
+const STEP = 0.04;
+
+// Held keys keep the pose active until released
+const POSE_KEYS: Record<string, PoseKind> = {
+  ' ': 'pinch',
+  f: 'fist',
+  o: 'open',
+  p: 'point',
+  v: 'peace',
+  t: 'thumbsUp',
+};
+
+// Arrow directions in screen space; x is mirrored into camera space when applied
+const MOVE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Keyboard input: arrows move the hand, Space pinches, F makes a fist and O
+ * opens the palm; P, V and T point, make a peace sign and give a thumbs up.
+ */
+const KeyboardInput: React.FC<GestureHandlers> = (handlers) => {
+  const hand = useSyntheticHand(handlers);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Already handled, e.g. by the photo gallery's arrow keys
+      if (e.defaultPrevented || isTyping(e.target)) return;
+      const move = MOVE_KEYS[e.key];
+      if (move) {
+        e.preventDefault();
+        hand.moveBy(-move[0] * STEP, move[1] * STEP);
+        return;
+      }
+      const pose = POSE_KEYS[e.key.toLowerCase()];
+      if (pose && !e.repeat) {
+        e.preventDefault();
+        hand.set(pose, true);
+      }
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+      const pose = POSE_KEYS[e.key.toLowerCase()];
+      if (pose) hand.set(pose, false);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [hand]);
+
+  return (
+    <div className="relative w-48 h-36 bg-black/80 rounded-xl border border-yellow-500/30 overflow-hidden shadow-2xl p-3 text-white">
+      <CommandLineIcon className="w-5 h-5 text-yellow-500 mb-1" />
+      <ul className="text-[10px] space-y-0.5 opacity-80">
+        <li className="flex justify-between"><span>Arrows</span> <span className="text-green-400">Aim</span></li>
+        <li className="flex justify-between"><span>Space</span> <span className="text-green-400">Pinch</span></li>
+        <li className="flex justify-between"><span>F</span> <span className="text-green-400">Fist</span></li>
+        <li className="flex justify-between"><span>O</span> <span className="text-green-400">Open Palm</span></li>
+        <li className="flex justify-between"><span>P / V / T</span> <span className="text-green-400">Point / Peace / Thumb</span></li>
+      </ul>
+      <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-black/50 rounded-full border border-white/10">
+          <span className="text-[8px] font-bold text-white uppercase tracking-widest">Keyboard</span>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardInput;
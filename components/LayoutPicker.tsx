@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutKind, LAYOUTS, LayoutSelection } from '../utils/layouts';
+
+interface LayoutPickerProps {
+  layout: LayoutSelection;
+  onChange: (layout: LayoutSelection) => void;
+}
+
+const PLACEHOLDERS: Partial<Record<LayoutKind, string>> = {
+  text: 'Merry\nChristmas',
+  svg: '<svg viewBox="0 0 100 100"><path d="..."/></svg>',
+};
+
+/** Chooses the tree layout; text and SVG layouts take their shape from user input. */
+const LayoutPicker: React.FC<LayoutPickerProps> = ({ layout, onChange }) => {
+  const [draft, setDraft] = useState(layout.source ?? '');
+  const needsSource = LAYOUTS[layout.kind].needsSource;
+
+  useEffect(() => setDraft(layout.source ?? ''), [layout.kind]);
+
+  const handleSvgFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setDraft(text);
+    onChange({ kind: 'svg', source: text });
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-2xl w-64 text-white pointer-events-auto">
+      <h3 className="text-xs font-bold text-yellow-500 mb-2 uppercase tracking-widest">Tree Shape</h3>
+      <select
+        value={layout.kind}
+        onChange={e => onChange({ kind: e.target.value as LayoutKind })}
+        className="w-full bg-black/60 border border-white/20 rounded-lg px-2 py-1 text-xs"
+      >
+        {(Object.keys(LAYOUTS) as LayoutKind[]).map(kind => (
+          <option key={kind} value={kind}>{LAYOUTS[kind].label}</option>
+        ))}
+      </select>
+      {needsSource && (
+        <div className="mt-2 space-y-1">
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder={PLACEHOLDERS[layout.kind]}
+            rows={layout.kind === 'svg' ? 3 : 2}
+            className="w-full bg-black/60 border border-white/20 rounded-lg px-2 py-1 text-xs font-mono resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange({ kind: layout.kind, source: draft })}
+              className="flex-1 bg-yellow-600/20 hover:bg-yellow-600/40 border border-yellow-600/50 text-yellow-500 rounded-full text-[10px] uppercase tracking-widest py-1"
+            >
+              Apply
+            </button>
+            {layout.kind === 'svg' && (
+              <label className="flex-1 text-center cursor-pointer bg-white/5 hover:bg-white/10 border border-white/20 rounded-full text-[10px] uppercase tracking-widest py-1">
+                Load File
+                <input type="file" accept=".svg,image/svg+xml" className="hidden" onChange={handleSvgFile} />
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayoutPicker;
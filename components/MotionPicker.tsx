@@ -0,0 +1,37 @@
+import React from 'react';
+import { MotionSetting } from '../types';
+
+interface MotionPickerProps {
+  setting: MotionSetting;
+  isReduced: boolean;
+  onChange: (setting: MotionSetting) => void;
+}
+
+const OPTIONS: { setting: MotionSetting; label: string }[] = [
+  { setting: 'system', label: 'System' },
+  { setting: 'reduced', label: 'Reduced' },
+  { setting: 'full', label: 'Full' },
+];
+
+const MotionPicker: React.FC<MotionPickerProps> = ({ setting, isReduced, onChange }) => (
+  <div role="group" aria-label="Motion" className="flex items-center gap-1 pointer-events-auto">
+    <span className="text-[9px] font-bold uppercase tracking-widest text-white/40 mr-1">Motion</span>
+    {OPTIONS.map(option => (
+      <button
+        key={option.setting}
+        onClick={() => onChange(option.setting)}
+        aria-pressed={setting === option.setting}
+        title={option.setting === 'system' ? `Follow the system setting (currently ${isReduced ? 'reduced' : 'full'})` : undefined}
+        className={`px-2 py-0.5 rounded-full border text-[9px] font-bold uppercase tracking-widest transition-all ${
+          setting === option.setting
+            ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20'
+            : 'border-white/10 text-white/60 bg-black/40 hover:text-white'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default MotionPicker;
@@ -0,0 +1,77 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { OrnamentKind } from '../types';
+import { ORNAMENT_KINDS } from '../utils/decorations';
+
+interface OrnamentItemProps {
+  ornamentId: string;
+  kind: OrnamentKind;
+  isScattered: boolean;
+  treePosition: THREE.Vector3;
+  scatterPosition: THREE.Vector3;
+  isHovered: boolean;
+  /** Decorate mode: follows this point (in tree space) while the hand drags it. */
+  dragPosition?: THREE.Vector3 | null;
+  metalness: number;
+  roughness: number;
+  /** Whether the ornament turns in place. */
+  isSpinning?: boolean;
+}
+
+const HOVER_SCALE = 1.3;
+const DRAG_SCALE = 1.5;
+
+const OrnamentShape: React.FC<{ kind: OrnamentKind }> = ({ kind }) => {
+  switch (kind) {
+    case 'bell':
+      return <cylinderGeometry args={[0.12, 0.35, 0.5, 16, 1, true]} />;
+    case 'ribbon':
+      return <torusGeometry args={[0.28, 0.08, 8, 24]} />;
+    default:
+      return <sphereGeometry args={[0.35, 24, 16]} />;
+  }
+};
+
+/** An ornament placed by hand in decorate mode; moves like a photo between tree and scatter. */
+const OrnamentItem: React.FC<OrnamentItemProps> = ({
+  ornamentId,
+  kind,
+  isScattered,
+  treePosition,
+  scatterPosition,
+  isHovered,
+  dragPosition,
+  metalness,
+  roughness,
+  isSpinning = true,
+}) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const color = ORNAMENT_KINDS[kind].color;
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const target = dragPosition ?? (isScattered ? scatterPosition : treePosition);
+    mesh.position.lerp(target, dragPosition ? Math.min(delta * 12, 1) : delta * 3);
+    const s = dragPosition ? DRAG_SCALE : isHovered ? HOVER_SCALE : 1;
+    mesh.scale.lerp(new THREE.Vector3(s, s, s), delta * 8);
+    if (isSpinning) mesh.rotation.y += delta * 0.8;
+  });
+
+  return (
+    <mesh ref={meshRef} castShadow userData={{ ornamentId }}>
+      <OrnamentShape kind={kind} />
+      <meshStandardMaterial
+        color={color}
+        emissive={color}
+        emissiveIntensity={isHovered ? 0.6 : 0.1}
+        metalness={metalness}
+        roughness={roughness}
+        side={THREE.DoubleSide}
+      />
+    </mesh>
+  );
+};
+
+export default OrnamentItem;
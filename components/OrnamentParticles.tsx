@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ThemeSwatch } from '../types';
+import { AudioReactor } from '../utils/audioReactor';
+import { createRandom } from '../utils/random';
+import { pickSwatch, themeEase } from '../utils/themes';
+
+interface OrnamentParticlesProps {
+  count: number;
+  treePositions: THREE.Vector3[];
+  scatterPositions: THREE.Vector3[];
+  /** Whether ornaments should be in their scatter positions. */
+  isScattered: boolean;
+  /** Whether scattered ornaments bob up and down. */
+  isFloating: boolean;
+  seed: number;
+  /** Weighted ornament colors; changing it cross-fades every ornament to its new color. */
+  palette: ThemeSwatch[];
+  metalness: number;
+  roughness: number;
+  /** Strength of the random twinkle highlights (0 disables them). */
+  sparkle?: number;
+  /** When set, floating ornaments pulse and bob with the music. */
+  audio?: AudioReactor | null;
+  /** Stops the tumbling of scattered ornaments and their music pulses. */
+  reducedMotion?: boolean;
+}
+
+// Ornament count the base size was tuned for; denser trees get smaller ornaments
+const REFERENCE_COUNT = 350;
+const FLOAT_AMPLITUDE = 0.3;
+// Tumble speed of scattered ornaments, in radians per second
+const SPIN_SPEED = 0.2;
+
+// Shared GLSL: every ornament is positioned, rotated and scaled on the GPU
+const SHADER_HEADER = /* glsl */ `
+attribute vec3 aTreeFrom;
+attribute vec3 aTreeTo;
+attribute vec3 aScatterFrom;
+attribute vec3 aScatterTo;
+attribute float aScale;
+attribute vec4 aSpin; // xyz: rotation axis, w: per-ornament phase in [0, 1)
+uniform float uProgress;
+uniform float uMorph;
+uniform float uTime;
+uniform float uSpin; // tumble angle, advanced on the CPU only while scattered
+uniform float uFloat;
+uniform vec3 uBands; // bass, mid, treble levels in music-reactive mode
+varying float vTwinkle;
+
+float ornamentScatter() {
+  // Stagger the transition a little per ornament so the tree dissolves rather than pops
+  return smoothstep(0.0, 1.0, clamp(uProgress * 1.4 - aSpin.w * 0.4, 0.0, 1.0));
+}
+
+mat3 ornamentRotation() {
+  float angle = aSpin.w * 6.2831853 + uSpin;
+  vec3 a = normalize(aSpin.xyz + vec3(1e-4));
+  float s = sin(angle);
+  float c = cos(angle);
+  float oc = 1.0 - c;
+  return mat3(
+    oc * a.x * a.x + c, oc * a.x * a.y + a.z * s, oc * a.z * a.x - a.y * s,
+    oc * a.x * a.y - a.z * s, oc * a.y * a.y + c, oc * a.y * a.z + a.x * s,
+    oc * a.z * a.x + a.y * s, oc * a.y * a.z - a.x * s, oc * a.z * a.z + c
+  );
+}
+`;
+
+const BEGIN_NORMAL = /* glsl */ `
+#include <beginnormal_vertex>
+objectNormal = ornamentRotation() * objectNormal;
+`;
+
+const BEGIN_VERTEX = /* glsl */ `
+#include <begin_vertex>
+float scatterAmount = ornamentScatter();
+vec3 ornamentPos = mix(mix(aTreeFrom, aTreeTo, uMorph), mix(aScatterFrom, aScatterTo, uMorph), scatterAmount);
+ornamentPos.y += sin(uTime + aSpin.w * 100.0) * uFloat * scatterAmount;
+// Each ornament listens to one frequency band, picked by its phase
+float band = aSpin.w < 0.33 ? uBands.x : aSpin.w < 0.66 ? uBands.y : uBands.z;
+transformed = ornamentRotation() * (transformed * aScale * (1.0 + band * scatterAmount)) + ornamentPos;
+vTwinkle = pow(max(sin(uTime * 2.0 + aSpin.w * 60.0), 0.0), 16.0);
+`;
+
+const patchVertex = (shader: THREE.WebGLProgramParametersWithUniforms, uniforms: Record<string, THREE.IUniform>) => {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = SHADER_HEADER + shader.vertexShader
+    .replace('#include <beginnormal_vertex>', BEGIN_NORMAL)
+    .replace('#include <begin_vertex>', BEGIN_VERTEX);
+};
+
+const writeVectors = (target: Float32Array, vectors: THREE.Vector3[]) => {
+  vectors.forEach((v, i) => v.toArray(target, i * 3));
+};
+
+/**
+ * Ornaments as a single instanced draw. Tree and scatter targets live in
+ * instance attributes and a shader blends them from a progress uniform, so
+ * the CPU only touches a few uniforms per frame. Layout or seed changes
+ * morph from wherever the ornaments currently are.
+ */
+const OrnamentParticles: React.FC<OrnamentParticlesProps> = ({
+  count,
+  treePositions,
+  scatterPositions,
+  isScattered,
+  isFloating,
+  seed,
+  palette,
+  metalness,
+  roughness,
+  sparkle = 0.6,
+  audio,
+  reducedMotion = false
+}) => {
+  const uniforms = useMemo(() => ({
+    uProgress: { value: isScattered ? 1 : 0 },
+    uMorph: { value: 1 },
+    uTime: { value: 0 },
+    uSpin: { value: 0 },
+    uFloat: { value: 0 },
+    uSparkle: { value: sparkle },
+    uBands: { value: new THREE.Vector3() },
+  }), []);
+
+  const geometry = useMemo(() => {
+    // Fewer segments when there are many ornaments; they are tiny on screen anyway
+    const segments = count > 5000 ? 6 : count > 1000 ? 10 : 16;
+    const sphere = new THREE.SphereGeometry(1, segments, segments);
+    const g = new THREE.InstancedBufferGeometry();
+    g.setIndex(sphere.index);
+    ['position', 'normal', 'uv'].forEach(name => g.setAttribute(name, sphere.getAttribute(name)));
+    g.instanceCount = count;
+    const attr = (name: string, size: number) =>
+      g.setAttribute(name, new THREE.InstancedBufferAttribute(new Float32Array(count * size), size));
+    ['aTreeFrom', 'aTreeTo', 'aScatterFrom', 'aScatterTo', 'color'].forEach(name => attr(name, 3));
+    attr('aScale', 1);
+    attr('aSpin', 4);
+    return g;
+  }, [count]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Colors the ornaments are fading toward; the live `color` attribute eases to these
+  const colorTargets = useMemo(() => new Float32Array(count * 3), [count]);
+  const isColorFadingRef = useRef(false);
+
+  const material = useMemo(() => {
+    const m = new THREE.MeshStandardMaterial({ metalness, roughness, vertexColors: true });
+    m.onBeforeCompile = shader => {
+      patchVertex(shader, uniforms);
+      shader.fragmentShader = 'uniform float uSparkle;\nvarying float vTwinkle;\n' + shader.fragmentShader.replace(
+        '#include <emissivemap_fragment>',
+        '#include <emissivemap_fragment>\ntotalEmissiveRadiance += vColor * vTwinkle * uSparkle;'
+      );
+    };
+    return m;
+  }, [uniforms]);
+
+  // Shadows are rendered with the same vertex transform
+  const depthMaterial = useMemo(() => {
+    const m = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+    m.onBeforeCompile = shader => patchVertex(shader, uniforms);
+    return m;
+  }, [uniforms]);
+
+  // Picking mirrors the vertex shader on the CPU (same attributes, same uniforms), so
+  // ornaments still hide the photos behind them without reading anything back from the GPU.
+  // Only the nearest ornament is reported; that is all occlusion needs.
+  const raycast = useMemo(() => {
+    const inverse = new THREE.Matrix4();
+    const localRay = new THREE.Ray();
+    const sphere = new THREE.Sphere();
+    const point = new THREE.Vector3();
+    const read = (name: string) => geometry.getAttribute(name).array as Float32Array;
+
+    return function (this: THREE.Mesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+      const treeFrom = read('aTreeFrom');
+      const treeTo = read('aTreeTo');
+      const scatterFrom = read('aScatterFrom');
+      const scatterTo = read('aScatterTo');
+      const scale = read('aScale');
+      const spin = read('aSpin');
+      const progress = uniforms.uProgress.value;
+      const morph = uniforms.uMorph.value;
+      const time = uniforms.uTime.value;
+      const float = uniforms.uFloat.value;
+
+      inverse.copy(this.matrixWorld).invert();
+      localRay.copy(raycaster.ray).applyMatrix4(inverse);
+      let nearest = Infinity;
+      for (let i = 0; i < count; i++) {
+        const phase = spin[i * 4 + 3];
+        const x = Math.min(Math.max(progress * 1.4 - phase * 0.4, 0), 1);
+        const scatter = x * x * (3 - 2 * x);
+        const at = (axis: number) => {
+          const j = i * 3 + axis;
+          const tree = treeFrom[j] + (treeTo[j] - treeFrom[j]) * morph;
+          const scattered = scatterFrom[j] + (scatterTo[j] - scatterFrom[j]) * morph;
+          return tree + (scattered - tree) * scatter;
+        };
+        sphere.center.set(at(0), at(1) + Math.sin(time + phase * 100) * float * scatter, at(2));
+        sphere.radius = scale[i];
+        if (!localRay.intersectSphere(sphere, point)) continue;
+        const distance = localRay.origin.distanceTo(point);
+        if (distance < nearest) nearest = distance;
+      }
+      if (nearest === Infinity) return;
+
+      localRay.at(nearest, point).applyMatrix4(this.matrixWorld);
+      const distance = raycaster.ray.origin.distanceTo(point);
+      if (distance < raycaster.near || distance > raycaster.far) return;
+      intersects.push({ distance, point: point.clone(), object: this });
+    };
+  }, [geometry, uniforms, count]);
+
+  useEffect(() => () => {
+    material.dispose();
+    depthMaterial.dispose();
+  }, [material, depthMaterial]);
+
+  // Per-ornament look: size, spin axis, phase and color
+  useEffect(() => {
+    const random = createRandom(seed, 'particles');
+    const sizeScale = Math.min(1, Math.sqrt(REFERENCE_COUNT / count));
+    const scale = geometry.getAttribute('aScale') as THREE.InstancedBufferAttribute;
+    const spin = geometry.getAttribute('aSpin') as THREE.InstancedBufferAttribute;
+    const c = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+      scale.setX(i, (0.2 + random() * 0.3) * sizeScale);
+      spin.setXYZW(i, random() - 0.5, random() - 0.5, random() - 0.5, random());
+      c.set(pickSwatch(palette, random())).toArray(colorTargets, i * 3);
+    }
+    scale.needsUpdate = true;
+    spin.needsUpdate = true;
+
+    // Fresh geometry takes its colors straight away; afterwards they fade
+    if (geometry.userData.hasColors === true) {
+      isColorFadingRef.current = true;
+    } else {
+      const color = geometry.getAttribute('color') as THREE.InstancedBufferAttribute;
+      (color.array as Float32Array).set(colorTargets);
+      color.needsUpdate = true;
+      geometry.userData.hasColors = true;
+    }
+  }, [geometry, count, seed, palette, colorTargets]);
+
+  // New targets: start the morph from the currently blended positions
+  useEffect(() => {
+    const morph = uniforms.uMorph.value;
+    const hasTargets = geometry.userData.hasTargets === true;
+    const retarget = (fromName: string, toName: string, positions: THREE.Vector3[]) => {
+      const from = geometry.getAttribute(fromName) as THREE.InstancedBufferAttribute;
+      const to = geometry.getAttribute(toName) as THREE.InstancedBufferAttribute;
+      const fromArray = from.array as Float32Array;
+      const toArray = to.array as Float32Array;
+      if (hasTargets) {
+        for (let i = 0; i < fromArray.length; i++) fromArray[i] += (toArray[i] - fromArray[i]) * morph;
+      }
+      writeVectors(toArray, positions.slice(0, count));
+      if (!hasTargets) fromArray.set(toArray);
+      from.needsUpdate = true;
+      to.needsUpdate = true;
+    };
+    retarget('aTreeFrom', 'aTreeTo', treePositions);
+    retarget('aScatterFrom', 'aScatterTo', scatterPositions);
+    geometry.userData.hasTargets = true;
+    uniforms.uMorph.value = hasTargets ? 0 : 1;
+  }, [geometry, treePositions, scatterPositions, count, uniforms]);
+
+  useFrame((state, delta) => {
+    const ease = Math.min(delta * 2.5, 1);
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uProgress.value += ((isScattered ? 1 : 0) - uniforms.uProgress.value) * ease;
+    // Accumulated rather than derived from the clock, so a transition never sweeps through the elapsed time
+    const spinSpeed = reducedMotion ? 0 : SPIN_SPEED;
+    uniforms.uSpin.value = (uniforms.uSpin.value + delta * spinSpeed * uniforms.uProgress.value) % (Math.PI * 2);
+    uniforms.uMorph.value += (1 - uniforms.uMorph.value) * ease;
+    const music = audio?.update(state.clock.elapsedTime);
+    const floatTarget = isFloating ? FLOAT_AMPLITUDE * (1 + (music?.mid ?? 0) * 3) : 0;
+    uniforms.uFloat.value += (floatTarget - uniforms.uFloat.value) * ease;
+    if (music && isFloating && !reducedMotion) {
+      uniforms.uBands.value.set(music.bass * 1.5, music.mid, music.treble * 0.8);
+    } else {
+      uniforms.uBands.value.multiplyScalar(1 - ease);
+    }
+    uniforms.uSparkle.value = sparkle;
+
+    const themeAlpha = themeEase(delta);
+    material.metalness += (metalness - material.metalness) * themeAlpha;
+    material.roughness += (roughness - material.roughness) * themeAlpha;
+    if (isColorFadingRef.current) {
+      const color = geometry.getAttribute('color') as THREE.InstancedBufferAttribute;
+      const colors = color.array as Float32Array;
+      let settled = true;
+      for (let i = 0; i < colors.length; i++) {
+        colors[i] += (colorTargets[i] - colors[i]) * themeAlpha;
+        if (Math.abs(colorTargets[i] - colors[i]) > 1e-3) settled = false;
+      }
+      if (settled) {
+        colors.set(colorTargets);
+        isColorFadingRef.current = false;
+      }
+      color.needsUpdate = true;
+    }
+  });
+
+  return (
+    <mesh
+      geometry={geometry}
+      material={material}
+      customDepthMaterial={depthMaterial}
+      frustumCulled={false}
+      castShadow
+      receiveShadow
+      raycast={raycast}
+    />
+  );
+};
+
+export default OrnamentParticles;
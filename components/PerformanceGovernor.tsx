@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { FrameStats, QualityGovernor } from '../utils/quality';
+
+export interface RenderStats extends FrameStats {
+  drawCalls: number;
+  triangles: number;
+}
+
+interface PerformanceGovernorProps {
+  /** Only proposes tier changes when enabled (the quality setting is Auto). */
+  enabled: boolean;
+  /** Changes whenever the tier does, so the governor measures each tier afresh. */
+  tierKey: string;
+  onStep: (step: -1 | 1) => void;
+  onStats?: (stats: RenderStats) => void;
+}
+
+// How often (seconds) stats are pushed out to React
+const STATS_INTERVAL = 0.5;
+
+/** Renders nothing; measures frame times inside the Canvas render loop. */
+const PerformanceGovernor: React.FC<PerformanceGovernorProps> = ({ enabled, tierKey, onStep, onStats }) => {
+  const { gl } = useThree();
+  const governorRef = useRef(new QualityGovernor());
+  const statsTimerRef = useRef(0);
+
+  useEffect(() => {
+    governorRef.current.reset();
+  }, [tierKey, enabled]);
+
+  useFrame((_, delta) => {
+    const step = governorRef.current.update(delta, enabled);
+    if (step !== 0) onStep(step);
+
+    statsTimerRef.current -= delta;
+    if (onStats && statsTimerRef.current <= 0) {
+      statsTimerRef.current = STATS_INTERVAL;
+      onStats({
+        ...governorRef.current.stats,
+        drawCalls: gl.info.render.calls,
+        triangles: gl.info.render.triangles,
+      });
+    }
+  });
+
+  return null;
+};
+
+export default PerformanceGovernor;
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { PhotoData } from '../types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface PhotoGalleryProps {
+  photos: PhotoData[];
+  selectedPhotoId: string;
+  onStep: (offset: number) => void;
+  onClose: () => void;
+}
+
+// Matches the time the 3D photo needs to fly in front of the camera
+const FLY_IN_MS = 500;
+
+/**
+ * Overlay for the ZOOMED state: full-resolution photo, caption, position and
+ * navigation. It is a modal dialog, so keyboard focus stays inside until it closes.
+ */
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, selectedPhotoId, onStep, onClose }) => {
+  const [isRevealed, setIsRevealed] = useState(false);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const index = photos.findIndex(p => p.id === selectedPhotoId);
+  const photo = photos[index];
+
+  useEffect(() => {
+    setIsRevealed(false);
+    const timer = setTimeout(() => setIsRevealed(true), FLY_IN_MS);
+    return () => clearTimeout(timer);
+  }, [selectedPhotoId]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') onStep(-1);
+      else if (e.key === 'ArrowRight') onStep(1);
+      else if (e.key === 'Escape') onClose();
+      else return;
+      // Handled here: keeps the keyboard hand from also moving on the same press
+      e.preventDefault();
+    };
+    // Capture phase runs before the other window listeners see the key
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [onStep, onClose]);
+
+  useFocusTrap(dialogRef);
+
+  if (!photo) return null;
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Photo ${index + 1} of ${photos.length}`}
+      tabIndex={-1}
+      className={`absolute inset-0 z-50 outline-none flex flex-col items-center justify-center pointer-events-auto transition-all duration-500 ${
+        isRevealed ? 'bg-black/60 backdrop-blur-sm' : 'bg-transparent'
+      }`}
+    >
+      <button 
+        onClick={onClose}
+        aria-label="Close photo"
+        className="absolute top-10 right-10 text-white p-2 hover:bg-white/10 rounded-full"
+      >
+        <XMarkIcon className="w-10 h-10" />
+      </button>
+
+      {photos.length > 1 && (
+        <>
+          <button
+            onClick={() => onStep(-1)}
+            aria-label="Previous photo"
+            className="absolute left-10 top-1/2 -translate-y-1/2 text-white p-2 hover:bg-white/10 rounded-full"
+          >
+            <ChevronLeftIcon className="w-10 h-10" />
+          </button>
+          <button
+            onClick={() => onStep(1)}
+            aria-label="Next photo"
+            className="absolute right-10 top-1/2 -translate-y-1/2 text-white p-2 hover:bg-white/10 rounded-full"
+          >
+            <ChevronRightIcon className="w-10 h-10" />
+          </button>
+        </>
+      )}
+
+      <div className={`relative max-w-[80vw] max-h-[70vh] transition-opacity duration-300 ${isRevealed ? 'opacity-100' : 'opacity-0'}`}>
+        <img 
+          src={photo.url} 
+          alt={photo.caption || photo.name} 
+          className="object-contain max-w-[80vw] max-h-[70vh] shadow-2xl border-4 border-yellow-500/30 rounded-lg"
+        />
+      </div>
+
+      <div className={`mt-6 text-center transition-opacity duration-300 ${isRevealed ? 'opacity-100' : 'opacity-0'}`}>
+        {photo.caption && <p className="text-white text-lg">{photo.caption}</p>}
+        <p className="text-yellow-500 text-xs uppercase tracking-widest mt-1">{index + 1} / {photos.length}</p>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoGallery;
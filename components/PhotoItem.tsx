@@ -1,76 +1,139 @@
 
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useTexture } from '@react-three/drei';
+import { Theme } from '../types';
+import { usePhotoTexture } from '../hooks/usePhotoTexture';
+import { easeColor, themeEase } from '../utils/themes';
 
 interface PhotoItemProps {
-  url: string;
+  photoId: string;
+  textureUrl: string;
+  thumbnailUrl: string;
+  aspect: number;
+  /** Whether the full texture fits in the budget; otherwise the thumbnail is shown. */
+  isTextureResident: boolean;
   isScattered: boolean;
-  index: number;
-  total: number;
+  /** Slot on the tree surface assigned by the current layout. */
+  treePosition: THREE.Vector3;
+  scatterPosition: THREE.Vector3;
   isZoomed: boolean;
+  isHovered: boolean;
+  frame: Theme['frame'];
+  /** Plane color while no texture is loaded. */
+  placeholder: string;
+  /** Decorate mode: follows this point (in tree space) while the hand drags it. */
+  dragPosition?: THREE.Vector3 | null;
+  /** Whether the photo turns in place while hanging on the tree. */
+  isSpinning?: boolean;
 }
 
-const PhotoItem: React.FC<PhotoItemProps> = ({ url, isScattered, index, total, isZoomed }) => {
+const HOVER_SCALE = 1.25;
+// Where the zoomed photo hovers in front of the camera, and how big it gets there
+const ZOOM_DISTANCE = 5;
+const ZOOM_SCALE = 3;
+
+const FRAME_MARGIN = 0.1;
+const DRAG_SCALE = 1.6;
+
+const PhotoItem: React.FC<PhotoItemProps> = ({
+  photoId,
+  textureUrl,
+  thumbnailUrl,
+  aspect,
+  isTextureResident,
+  isScattered,
+  treePosition,
+  scatterPosition,
+  isZoomed,
+  isHovered,
+  frame,
+  placeholder,
+  dragPosition,
+  isSpinning = true
+}) => {
   const meshRef = useRef<THREE.Mesh>(null);
-  const texture = useTexture(url);
+  const frameMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  // Frame colors are only set on mount; theme changes fade in from useFrame
+  const [initialFrame] = useState(frame);
+  const thumbnail = usePhotoTexture(thumbnailUrl);
+  const fullTexture = usePhotoTexture(isTextureResident ? textureUrl : null);
+  const texture = fullTexture ?? thumbnail;
 
-  // Tree position for photos
-  const treePos = useMemo(() => {
-    const h = (index / total) * 8 - 4;
-    const r = ((5 - h) / 10) * 4;
-    const angle = (index / total) * Math.PI * 4;
-    return new THREE.Vector3(
-        Math.cos(angle) * r,
-        h,
-        Math.sin(angle) * r
-    );
-  }, [index, total]);
+  // Fit the photo inside a unit square, keeping its proportions
+  const width = aspect >= 1 ? 1 : aspect;
+  const height = aspect >= 1 ? 1 / aspect : 1;
 
-  // Scatter position
-  const scatterPos = useMemo(() => new THREE.Vector3(
-    (Math.random() - 0.5) * 20,
-    (Math.random() - 0.5) * 20,
-    (Math.random() - 0.5) * 20
-  ), []);
+  const flyTarget = useMemo(() => new THREE.Vector3(), []);
 
   useFrame((state, delta) => {
     if (!meshRef.current) return;
 
+    const frameMaterial = frameMaterialRef.current;
+    if (frameMaterial) {
+      const alpha = themeEase(delta);
+      easeColor(frameMaterial.color, frame.color, alpha);
+      easeColor(frameMaterial.emissive, frame.color, alpha);
+      frameMaterial.metalness += (frame.metalness - frameMaterial.metalness) * alpha;
+      frameMaterial.roughness += (frame.roughness - frameMaterial.roughness) * alpha;
+    }
+
     if (isZoomed) {
-        // Handled by overlay mostly, but keep in scene if needed
-        meshRef.current.scale.lerp(new THREE.Vector3(0, 0, 0), delta * 5);
+        // Fly in front of the camera; the gallery overlay fades in on top once it arrives
+        state.camera.getWorldDirection(flyTarget).multiplyScalar(ZOOM_DISTANCE).add(state.camera.position);
+        meshRef.current.parent?.worldToLocal(flyTarget);
+        meshRef.current.position.lerp(flyTarget, delta * 4);
+        meshRef.current.lookAt(state.camera.position);
+        meshRef.current.scale.lerp(new THREE.Vector3(ZOOM_SCALE, ZOOM_SCALE, 1), delta * 4);
+        return;
+    }
+
+    if (dragPosition) {
+        // Held by the hand: follow it closely, face the viewer and lift out of the tree
+        meshRef.current.position.lerp(dragPosition, Math.min(delta * 12, 1));
+        meshRef.current.lookAt(state.camera.position);
+        meshRef.current.scale.lerp(new THREE.Vector3(DRAG_SCALE, DRAG_SCALE, 1), delta * 8);
         return;
     }
 
-    const target = isScattered ? scatterPos : treePos;
+    const target = isScattered ? scatterPosition : treePosition;
     meshRef.current.position.lerp(target, delta * 3);
     
     if (isScattered) {
         meshRef.current.lookAt(state.camera.position);
-        meshRef.current.scale.lerp(new THREE.Vector3(2.5, 2.5, 1), delta * 2);
+        const s = isHovered ? 2.5 * HOVER_SCALE : 2.5;
+        meshRef.current.scale.lerp(new THREE.Vector3(s, s, 1), delta * (isHovered ? 8 : 2));
     } else {
-        meshRef.current.rotation.y += delta * 0.5;
+        if (isSpinning) meshRef.current.rotation.y += delta * 0.5;
         meshRef.current.scale.lerp(new THREE.Vector3(1.2, 1.2, 1), delta * 2);
     }
   });
 
+  // The material is keyed on the texture so switching thumbnail -> full texture recompiles it
   return (
-    <mesh ref={meshRef} castShadow>
-      <planeGeometry args={[1, 1]} />
+    <mesh ref={meshRef} castShadow userData={{ photoId }}>
+      <planeGeometry args={[width, height]} />
       <meshStandardMaterial 
+        key={texture ? texture.uuid : 'empty'}
         map={texture} 
+        color={texture ? '#FFFFFF' : placeholder}
         side={THREE.DoubleSide} 
         transparent 
         alphaTest={0.5}
         metalness={0.2}
         roughness={0.8}
       />
-      {/* Golden Frame */}
+      {/* Frame */}
       <mesh position={[0,0,-0.01]}>
-         <planeGeometry args={[1.1, 1.1]} />
-         <meshStandardMaterial color="#D4AF37" metalness={1} roughness={0.1} />
+         <planeGeometry args={[width + FRAME_MARGIN, height + FRAME_MARGIN]} />
+         <meshStandardMaterial
+           ref={frameMaterialRef}
+           color={initialFrame.color}
+           metalness={initialFrame.metalness}
+           roughness={initialFrame.roughness}
+           emissive={initialFrame.color}
+           emissiveIntensity={isHovered ? frame.hoverGlow : 0}
+         />
       </mesh>
     </mesh>
   );
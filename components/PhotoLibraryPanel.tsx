@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { PhotoLibrary } from '../hooks/usePhotoLibrary';
+
+interface PhotoLibraryPanelProps {
+  library: PhotoLibrary;
+  onClose: () => void;
+  /** Opens the photo in the zoomed view. */
+  onView: (photoId: string) => void;
+}
+
+const PhotoLibraryPanel: React.FC<PhotoLibraryPanelProps> = ({ library, onClose, onView }) => {
+  const { albums, activeAlbumId, photos, isPersistent } = library;
+  const activeAlbum = albums.find(a => a.id === activeAlbumId);
+  const [error, setError] = useState<string | null>(null);
+
+  // Storage writes can fail (e.g. over quota); say so instead of dropping the error
+  const attempt = (action: string, task: Promise<unknown>) => {
+    setError(null);
+    task.catch(err => {
+      console.error(err);
+      setError(`Could not ${action}: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  };
+
+  const handleNewAlbum = () => {
+    const name = prompt('Album name');
+    if (name?.trim()) attempt('create the album', library.createAlbum(name.trim()));
+  };
+
+  const handleRenameAlbum = () => {
+    if (!activeAlbum) return;
+    const name = prompt('Rename album', activeAlbum.name);
+    if (name?.trim()) attempt('rename the album', library.renameAlbum(activeAlbum.id, name.trim()));
+  };
+
+  const handleDeleteAlbum = () => {
+    if (activeAlbum && confirm(`Delete "${activeAlbum.name}" and all of its photos?`)) {
+      attempt('delete the album', library.deleteAlbum(activeAlbum.id));
+    }
+  };
+
+  return (
+    <div className="absolute top-24 right-6 bottom-48 w-80 bg-black/70 backdrop-blur-md border border-white/10 rounded-2xl text-white pointer-events-auto flex flex-col z-40">
+      <div className="flex justify-between items-center p-4 pb-2">
+        <h3 className="text-xs font-bold text-yellow-500 uppercase tracking-widest">Photo Library</h3>
+        <button onClick={onClose} title="Close library" aria-label="Close library" className="p-1 hover:bg-white/10 rounded-full">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 px-4 pb-2">
+        <select
+          value={activeAlbumId ?? ''}
+          onChange={e => library.selectAlbum(e.target.value)}
+          className="flex-1 bg-black/60 border border-white/20 rounded-lg px-2 py-1 text-xs"
+        >
+          {albums.map(album => (
+            <option key={album.id} value={album.id}>{album.name}</option>
+          ))}
+        </select>
+        <button onClick={handleNewAlbum} disabled={!isPersistent} title="New album" className="p-1 hover:bg-white/10 rounded-lg disabled:opacity-30">
+          <PlusIcon className="w-4 h-4" />
+        </button>
+        <button onClick={handleRenameAlbum} disabled={!isPersistent} title="Rename album" className="px-2 text-[10px] uppercase hover:bg-white/10 rounded-lg disabled:opacity-30">
+          Rename
+        </button>
+        <button onClick={handleDeleteAlbum} disabled={!isPersistent || albums.length <= 1} title="Delete album" className="p-1 hover:bg-white/10 rounded-lg disabled:opacity-30">
+          <TrashIcon className="w-4 h-4 text-red-400" />
+        </button>
+      </div>
+
+      {!isPersistent && (
+        <p className="px-4 pb-2 text-[10px] text-red-400">Storage unavailable: photos will be lost on reload.</p>
+      )}
+
+      {error && (
+        <p role="alert" className="px-4 pb-2 text-[10px] text-red-400">{error}</p>
+      )}
+
+      <ul className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+        {photos.length === 0 && (
+          <li className="text-xs opacity-50 text-center py-8">No photos in this album yet</li>
+        )}
+        {photos.map((photo, index) => (
+          <li key={photo.id} className="flex gap-2 items-center bg-white/5 rounded-lg p-2">
+            <button onClick={() => onView(photo.id)} title="View photo" className="shrink-0 rounded hover:ring-2 hover:ring-yellow-500 focus-visible:ring-2 focus-visible:ring-yellow-500 outline-none">
+              <img src={photo.url} alt={`View ${photo.caption || photo.name}`} className="w-12 h-12 object-cover rounded" />
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] opacity-60 truncate" title={photo.name}>{photo.name}</p>
+              <input
+                defaultValue={photo.caption}
+                placeholder="Add a caption"
+                aria-label={`Caption for ${photo.name}`}
+                onBlur={e => e.target.value !== photo.caption && attempt('save the caption', library.setCaption(photo.id, e.target.value))}
+                className="w-full bg-transparent border-b border-white/10 focus:border-yellow-500 outline-none text-xs py-0.5"
+              />
+            </div>
+            <div className="flex flex-col">
+              <button onClick={() => attempt('move the photo', library.movePhoto(photo.id, -1))} disabled={index === 0} title="Move earlier" aria-label="Move earlier" className="hover:text-yellow-500 disabled:opacity-20">
+                <ChevronLeftIcon className="w-3 h-3" />
+              </button>
+              <button onClick={() => attempt('move the photo', library.movePhoto(photo.id, 1))} disabled={index === photos.length - 1} title="Move later" aria-label="Move later" className="hover:text-yellow-500 disabled:opacity-20">
+                <ChevronRightIcon className="w-3 h-3" />
+              </button>
+            </div>
+            <button onClick={() => attempt('remove the photo', library.removePhoto(photo.id))} title="Remove photo" className="p-1 hover:bg-white/10 rounded">
+              <TrashIcon className="w-4 h-4 text-red-400" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PhotoLibraryPanel;
@@ -0,0 +1,91 @@
+import React, { useEffect } from 'react';
+import { CursorArrowRaysIcon } from '@heroicons/react/24/outline';
+import { GestureHandlers } from '../types';
+import { useSyntheticHand } from '../hooks/useSyntheticHand';
+
+const LONG_PRESS_MS = 500;
+const DOUBLE_TAP_MS = 300;
+const MOVE_TOLERANCE_PX = 12;
+
+/**
+ * Mouse and touch input: moving drives the hand position, a click or tap is a
+ * pinch, a long press is a fist and a double tap is an open palm.
+ * Only presses on the 3D canvas count, so overlay buttons keep working.
+ */
+const PointerInput: React.FC<GestureHandlers> = (handlers) => {
+  const hand = useSyntheticHand(handlers);
+
+  useEffect(() => {
+    let pressTimer: ReturnType<typeof setTimeout> | null = null;
+    let pressOrigin: { x: number; y: number } | null = null;
+    let lastTap = 0;
+
+    const track = (e: PointerEvent) => {
+      // Mirror x so the pointer lines up with the mirrored camera space
+      hand.moveTo(1 - e.clientX / window.innerWidth, e.clientY / window.innerHeight);
+    };
+
+    const cancelLongPress = () => {
+      if (pressTimer) clearTimeout(pressTimer);
+      pressTimer = null;
+    };
+
+    const onMove = (e: PointerEvent) => {
+      track(e);
+      if (pressOrigin && Math.hypot(e.clientX - pressOrigin.x, e.clientY - pressOrigin.y) > MOVE_TOLERANCE_PX) {
+        cancelLongPress();
+      }
+    };
+
+    const onDown = (e: PointerEvent) => {
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+      track(e);
+      const now = performance.now();
+      if (now - lastTap < DOUBLE_TAP_MS) {
+        lastTap = 0;
+        hand.pulse('open');
+        return;
+      }
+      lastTap = now;
+      pressOrigin = { x: e.clientX, y: e.clientY };
+      hand.set('pinch', true);
+      pressTimer = setTimeout(() => hand.set('fist', true), LONG_PRESS_MS);
+    };
+
+    const onUp = () => {
+      cancelLongPress();
+      pressOrigin = null;
+      hand.set('pinch', false);
+      hand.set('fist', false);
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerdown', onDown);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+    return () => {
+      cancelLongPress();
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerdown', onDown);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
+    };
+  }, [hand]);
+
+  return (
+    <div className="relative w-48 h-36 bg-black/80 rounded-xl border border-yellow-500/30 overflow-hidden shadow-2xl p-3 text-white">
+      <CursorArrowRaysIcon className="w-5 h-5 text-yellow-500 mb-1" />
+      <ul className="text-[10px] space-y-0.5 opacity-80">
+        <li className="flex justify-between"><span>Move</span> <span className="text-green-400">Aim</span></li>
+        <li className="flex justify-between"><span>Click / Tap</span> <span className="text-green-400">Pinch</span></li>
+        <li className="flex justify-between"><span>Long Press</span> <span className="text-green-400">Fist</span></li>
+        <li className="flex justify-between"><span>Double Tap</span> <span className="text-green-400">Open Palm</span></li>
+      </ul>
+      <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-black/50 rounded-full border border-white/10">
+          <span className="text-[8px] font-bold text-white uppercase tracking-widest">Pointer</span>
+      </div>
+    </div>
+  );
+};
+
+export default PointerInput;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Cog6ToothIcon, StopIcon } from '@heroicons/react/24/outline';
+import { Presentation } from '../hooks/usePresentation';
+import { PresentationSettings } from '../utils/presentation';
+
+interface PresentationBarProps {
+  presentation: Presentation;
+}
+
+const SETTING_FIELDS: { key: keyof PresentationSettings; label: string }[] = [
+  { key: 'treeSeconds', label: 'Tree' },
+  { key: 'cloudSeconds', label: 'Cloud' },
+  { key: 'photoSeconds', label: 'Photo' },
+  { key: 'resumeAfterSeconds', label: 'Resume' },
+];
+
+/** Status and controls for presentation mode; stays visible while the rest of the UI hides. */
+const PresentationBar: React.FC<PresentationBarProps> = ({ presentation }) => {
+  const { isTakenOver, stepIndex, stepCount, settings, setSettings, stop } = presentation;
+  const [showSettings, setShowSettings] = useState(false);
+
+  return (
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2 pointer-events-auto">
+      <div className="flex items-center gap-3 bg-black/50 backdrop-blur-md border border-white/10 rounded-full px-4 py-1.5 text-white opacity-40 hover:opacity-100 transition-opacity">
+        <span className={`w-2 h-2 rounded-full ${isTakenOver ? 'bg-yellow-500' : 'bg-green-400 motion-safe:animate-pulse'}`} />
+        <span className="text-[10px] font-bold uppercase tracking-widest">
+          {isTakenOver
+            ? `Hand control · autoplay resumes after ${settings.resumeAfterSeconds}s idle`
+            : `Autoplay · ${stepIndex + 1} / ${stepCount}`}
+        </span>
+        <button onClick={() => setShowSettings(s => !s)} title="Timing" className="p-1 hover:bg-white/10 rounded-full">
+          <Cog6ToothIcon className="w-4 h-4" />
+        </button>
+        <button onClick={stop} title="Stop presentation" className="p-1 hover:bg-white/10 rounded-full">
+          <StopIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {showSettings && (
+        <div className="flex gap-3 bg-black/60 backdrop-blur-md border border-white/10 rounded-2xl px-4 py-2 text-white">
+          {SETTING_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col items-center text-[9px] uppercase tracking-widest text-white/60">
+              {label}
+              <input
+                type="number"
+                min={1}
+                max={600}
+                value={settings[key]}
+                onChange={e => {
+                  const value = Number(e.target.value);
+                  if (value >= 1) setSettings({ ...settings, [key]: value });
+                }}
+                className="w-14 mt-1 bg-transparent border-b border-white/10 focus:border-yellow-500 outline-none text-xs text-center text-white"
+              />
+            </label>
+          ))}
+          <span className="self-end text-[9px] text-white/40 pb-1">seconds</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresentationBar;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { QualitySetting, QualityTier } from '../types';
+import { ChartBarIcon } from '@heroicons/react/24/outline';
+
+interface QualityPickerProps {
+  setting: QualitySetting;
+  activeTier: QualityTier;
+  onChange: (setting: QualitySetting) => void;
+  showStats: boolean;
+  onToggleStats: () => void;
+}
+
+const OPTIONS: { setting: QualitySetting; label: string }[] = [
+  { setting: 'auto', label: 'Auto' },
+  { setting: 'low', label: 'Low' },
+  { setting: 'medium', label: 'Med' },
+  { setting: 'high', label: 'High' },
+];
+
+const QualityPicker: React.FC<QualityPickerProps> = ({ setting, activeTier, onChange, showStats, onToggleStats }) => (
+  <div className="flex items-center gap-1 pointer-events-auto">
+    <span className="text-[9px] font-bold uppercase tracking-widest text-white/40 mr-1">Quality</span>
+    {OPTIONS.map(option => (
+      <button
+        key={option.setting}
+        onClick={() => onChange(option.setting)}
+        title={option.setting === 'auto' ? `Auto (currently ${activeTier})` : undefined}
+        className={`px-2 py-0.5 rounded-full border text-[9px] font-bold uppercase tracking-widest transition-all ${
+          setting === option.setting
+            ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20'
+            : 'border-white/10 text-white/60 bg-black/40 hover:text-white'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+    <button
+      onClick={onToggleStats}
+      title={showStats ? 'Hide stats' : 'Show stats'}
+      className={`p-1 rounded-full border transition-all ${
+        showStats ? 'border-yellow-500 text-yellow-500 bg-yellow-600/20' : 'border-white/10 text-white/60 bg-black/40 hover:text-white'
+      }`}
+    >
+      <ChartBarIcon className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+export default QualityPicker;
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureEvent, HandGesture } from '../types';
+import { createSessionCursor, LandmarkSession, playSession } from '../utils/landmarkSession';
+import { drawHand } from '../utils/drawHand';
+
+interface ReplayUIProps {
+  session: LandmarkSession;
+  onGesture: (gesture: HandGesture) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [1, 2, 4];
+
+/** Stand-in for HandTrackerUI that feeds a recorded session through the same gesture path. */
+const ReplayUI: React.FC<ReplayUIProps> = ({ session, onGesture, onGestureEvent, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [speed, setSpeed] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [loop, setLoop] = useState(false);
+
+  // Survives pause, speed and loop changes so playback resumes instead of restarting
+  const cursorRef = useRef(createSessionCursor());
+
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
+  const onGestureEventRef = useRef(onGestureEvent);
+  onGestureEventRef.current = onGestureEvent;
+
+  useEffect(() => {
+    cursorRef.current = createSessionCursor();
+  }, [session]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    return playSession(
+      session,
+      {
+        onGesture: gesture => {
+          onGestureRef.current(gesture);
+          if (canvasRef.current) drawHand(canvasRef.current, gesture);
+        },
+        onGestureEvent: event => onGestureEventRef.current?.(event),
+      },
+      { speed, loop, onEnd: () => setIsPlaying(false), cursor: cursorRef.current }
+    );
+  }, [session, speed, loop, isPlaying]);
+
+  const duration = session.frames.length > 0 ? session.frames[session.frames.length - 1].t / 1000 : 0;
+
+  return (
+    <div className="relative w-48 h-36 bg-black/80 rounded-xl border border-yellow-500/30 overflow-hidden shadow-2xl">
+      <canvas
+        ref={canvasRef}
+        width={320}
+        height={240}
+        className="w-full h-full object-cover opacity-60 scale-x-[-1]"
+      />
+      <div className="absolute top-2 left-2 right-2 flex justify-between items-center">
+        <button
+          onClick={() => setIsPlaying(p => !p)}
+          className="px-2 py-0.5 bg-black/50 rounded-full border border-white/10 text-[8px] font-bold text-yellow-500 uppercase tracking-widest"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-1.5 py-0.5 rounded-full border text-[8px] font-bold ${speed === s ? 'border-yellow-500 text-yellow-500' : 'border-white/10 text-white/60'}`}
+            >
+              {s}x
+            </button>
+          ))}
+          <button
+            onClick={() => setLoop(l => !l)}
+            className={`px-1.5 py-0.5 rounded-full border text-[8px] font-bold ${loop ? 'border-yellow-500 text-yellow-500' : 'border-white/10 text-white/60'}`}
+          >
+            Loop
+          </button>
+        </div>
+      </div>
+      <div className="absolute bottom-2 left-2 right-2 flex justify-between items-center">
+        <div className="px-2 py-0.5 bg-black/50 rounded-full border border-white/10">
+          <span className="text-[8px] font-bold text-white uppercase tracking-widest">Replay · {duration.toFixed(1)}s</span>
+        </div>
+        <button
+          onClick={onExit}
+          className="px-2 py-0.5 bg-black/50 rounded-full border border-white/10 text-[8px] font-bold text-white uppercase tracking-widest hover:bg-black/70"
+        >
+          Live
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayUI;
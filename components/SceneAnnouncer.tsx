@@ -0,0 +1,29 @@
+import React from 'react';
+import { AppState, PhotoData } from '../types';
+
+interface SceneAnnouncerProps {
+  appState: AppState;
+  photos: PhotoData[];
+  selectedPhotoId: string | null;
+  isDecorating: boolean;
+}
+
+const describe = ({ appState, photos, selectedPhotoId, isDecorating }: SceneAnnouncerProps) => {
+  if (appState === AppState.ZOOMED) {
+    const index = photos.findIndex(p => p.id === selectedPhotoId);
+    const photo = photos[index];
+    return photo ? `Photo ${index + 1} of ${photos.length}: ${photo.caption || photo.name}` : '';
+  }
+  if (isDecorating) return 'Decorating the tree. Pinch to drag photos and ornaments between slots.';
+  if (appState === AppState.SCATTERED) return `Tree scattered into ${photos.length} ${photos.length === 1 ? 'photo' : 'photos'}.`;
+  return 'Tree closed.';
+};
+
+/** Screen reader announcements of state changes and the selected photo; renders nothing visible. */
+const SceneAnnouncer: React.FC<SceneAnnouncerProps> = (props) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {describe(props)}
+  </div>
+);
+
+export default SceneAnnouncer;
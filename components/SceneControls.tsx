@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react';
+import { AppState, GestureKind } from '../types';
+import { GESTURE_LABELS } from '../utils/gestureBindings';
+
+interface SceneControlsProps {
+  appState: AppState;
+  hasPhotos: boolean;
+  /** Gestures currently bound to scatter and rebuild, shown as hints; null when unbound. */
+  scatterGesture: GestureKind | null;
+  closeGesture: GestureKind | null;
+  onScatter: () => void;
+  onClose: () => void;
+  onBrowse: () => void;
+}
+
+// Letters that KeyboardInput leaves free for its poses
+const SHORTCUTS: Record<string, 'scatter' | 'close' | 'browse'> = {
+  s: 'scatter',
+  c: 'close',
+  b: 'browse',
+};
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const button = 'px-3 py-1 rounded-full border border-yellow-600/50 bg-yellow-600/20 hover:bg-yellow-600/40 text-yellow-500 text-xs font-medium transition-all';
+
+/**
+ * Center prompt with keyboard equivalents of the tree gestures: S scatters,
+ * C rebuilds and B opens the photos. The zoomed photo has its own keys.
+ */
+const SceneControls: React.FC<SceneControlsProps> = ({ appState, hasPhotos, scatterGesture, closeGesture, onScatter, onClose, onBrowse }) => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // The zoomed photo is a modal; its own keys apply, not the scene's behind it
+      if (appState === AppState.ZOOMED) return;
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat || isTyping(e.target)) return;
+      const shortcut = SHORTCUTS[e.key.toLowerCase()];
+      if (!shortcut) return;
+      e.preventDefault();
+      if (shortcut === 'scatter') onScatter();
+      else if (shortcut === 'close') onClose();
+      else if (hasPhotos) onBrowse();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [appState, onScatter, onClose, onBrowse, hasPhotos]);
+
+  if (appState === AppState.ZOOMED) return null;
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-2 text-center opacity-40 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+      {appState === AppState.CLOSED && scatterGesture && (
+        <p className="text-yellow-500 text-sm motion-safe:animate-pulse">{GESTURE_LABELS[scatterGesture]} to scatter the tree</p>
+      )}
+      {appState === AppState.SCATTERED && closeGesture && (
+        <p className="text-yellow-500 text-sm motion-safe:animate-pulse">{GESTURE_LABELS[closeGesture]} to rebuild</p>
+      )}
+      <div className="flex gap-2 pointer-events-auto">
+        {appState === AppState.CLOSED ? (
+          <button onClick={onScatter} aria-keyshortcuts="S" className={button}>Scatter tree (S)</button>
+        ) : (
+          <button onClick={onClose} aria-keyshortcuts="C" className={button}>Rebuild tree (C)</button>
+        )}
+        {hasPhotos && (
+          <button onClick={onBrowse} aria-keyshortcuts="B" className={button}>Browse photos (B)</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SceneControls;
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, LockClosedIcon, LockOpenIcon } from '@heroicons/react/24/outline';
+import { formatSeed, parseSeed } from '../utils/random';
+
+interface SeedControlProps {
+  seed: number;
+  isPinned: boolean;
+  onSeedChange: (seed: number) => void;
+  onReroll: () => void;
+  onTogglePin: () => void;
+}
+
+/** Shows the scene seed; it can be typed in, re-rolled, or pinned across reloads. */
+const SeedControl: React.FC<SeedControlProps> = ({ seed, isPinned, onSeedChange, onReroll, onTogglePin }) => {
+  const [draft, setDraft] = useState(formatSeed(seed));
+
+  useEffect(() => setDraft(formatSeed(seed)), [seed]);
+
+  const commit = () => {
+    const parsed = parseSeed(draft);
+    if (parsed === null) setDraft(formatSeed(seed));
+    else if (parsed !== seed) onSeedChange(parsed);
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/10 px-3 py-2 rounded-2xl w-64 text-white pointer-events-auto">
+      <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest">Seed</span>
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => e.key === 'Enter' && commit()}
+        maxLength={8}
+        spellCheck={false}
+        className="flex-1 min-w-0 bg-transparent border-b border-white/10 focus:border-yellow-500 outline-none text-xs font-mono"
+      />
+      <button onClick={onReroll} title="Re-roll scene" className="p-1 hover:bg-white/10 rounded-full">
+        <ArrowPathIcon className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onTogglePin}
+        title={isPinned ? 'Unpin seed' : 'Pin seed across reloads'}
+        className={`p-1 hover:bg-white/10 rounded-full ${isPinned ? 'text-yellow-500' : ''}`}
+      >
+        {isPinned ? <LockClosedIcon className="w-4 h-4" /> : <LockOpenIcon className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+};
+
+export default SeedControl;
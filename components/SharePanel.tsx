@@ -0,0 +1,78 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, FolderOpenIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { GreetingBundle } from '../hooks/useGreetingBundle';
+
+interface SharePanelProps {
+  bundle: GreetingBundle;
+  photoCount: number;
+  /** Name of the playing track, which can be included. */
+  musicName: string | null;
+  onClose: () => void;
+}
+
+/** Export the current tree as a greeting bundle, or open one someone sent. */
+const SharePanel: React.FC<SharePanelProps> = ({ bundle, photoCount, musicName, onClose }) => {
+  const [greeting, setGreeting] = useState('Merry Christmas!');
+  const [includeMusic, setIncludeMusic] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) bundle.openGreeting(file).then(onClose);
+  };
+
+  return (
+    <div className="absolute top-24 right-6 w-80 bg-black/70 backdrop-blur-md border border-white/10 rounded-2xl text-white pointer-events-auto z-40 p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-bold text-yellow-500 uppercase tracking-widest">Share Greeting</h3>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-[11px] text-white/60">
+        Packs the {photoCount} photo{photoCount === 1 ? '' : 's'}, decorations, theme and scene into one .zip the
+        recipient opens here. It plays with a mouse or touch if they have no camera.
+      </p>
+      <textarea
+        value={greeting}
+        onChange={e => setGreeting(e.target.value)}
+        rows={3}
+        placeholder="Greeting message (optional)"
+        className="w-full bg-black/60 border border-white/20 rounded-lg px-2 py-1 text-xs resize-none"
+      />
+      <label className={`flex items-center gap-2 text-[11px] ${musicName ? '' : 'opacity-40'}`}>
+        <input
+          type="checkbox"
+          checked={includeMusic && !!musicName}
+          disabled={!musicName}
+          onChange={e => setIncludeMusic(e.target.checked)}
+        />
+        {musicName ? `Include music (${musicName})` : 'Play a track in the Music panel to include it'}
+      </label>
+      <button
+        onClick={() => bundle.exportGreeting(greeting.trim(), includeMusic && !!musicName)}
+        disabled={bundle.isBusy}
+        className="w-full flex items-center justify-center gap-2 bg-yellow-600/20 hover:bg-yellow-600/40 border border-yellow-600/50 text-yellow-500 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest disabled:opacity-40"
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+        {bundle.isBusy ? 'Working…' : 'Export greeting'}
+      </button>
+
+      <div className="border-t border-white/10 pt-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={bundle.isBusy}
+          className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest disabled:opacity-40"
+        >
+          <FolderOpenIcon className="w-4 h-4" />
+          Open a greeting
+        </button>
+        <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFile} />
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { QualityTier } from '../types';
+import { RenderStats } from './PerformanceGovernor';
+
+interface StatsOverlayProps {
+  stats: RenderStats | null;
+  tier: QualityTier;
+  particleCount: number;
+}
+
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ stats, tier, particleCount }) => (
+  <div className="absolute top-24 left-6 px-3 py-2 bg-black/60 border border-white/10 rounded-lg font-mono text-[10px] text-green-400 pointer-events-none space-y-0.5">
+    <div>{stats ? `${stats.fps.toFixed(0)} fps · ${stats.frameMs.toFixed(1)} ms` : '-- fps'}</div>
+    <div>{stats ? `${stats.drawCalls} draws · ${(stats.triangles / 1000).toFixed(0)}k tris` : '--'}</div>
+    <div className="text-yellow-500 uppercase">{tier} · {particleCount} ornaments</div>
+  </div>
+);
+
+export default StatsOverlay;
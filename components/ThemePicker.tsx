@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { Theme } from '../types';
+import { downloadTheme } from '../utils/themes';
+
+interface ThemePickerProps {
+  theme: Theme;
+  themes: Theme[];
+  onSelect: (id: string) => void;
+  /** Receives the file contents; throws if they are not a valid theme. */
+  onImport: (json: string) => void;
+}
+
+/** Theme selector with a palette preview and JSON import/export of custom themes. */
+const ThemePicker: React.FC<ThemePickerProps> = ({ theme, themes, onSelect, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(await file.text());
+    } catch (err) {
+      console.error(err);
+      alert(`Could not load that theme: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/10 px-3 py-2 rounded-2xl w-64 text-white pointer-events-auto">
+      <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest">Theme</span>
+      <select
+        value={theme.id}
+        onChange={e => onSelect(e.target.value)}
+        className="flex-1 min-w-0 bg-transparent border-b border-white/10 focus:border-yellow-500 outline-none text-xs"
+      >
+        {themes.map(t => (
+          <option key={t.id} value={t.id} className="bg-black">{t.name}</option>
+        ))}
+      </select>
+      <div className="flex -space-x-1">
+        {theme.palette.map((swatch, i) => (
+          <span key={i} className="w-3 h-3 rounded-full border border-black/50" style={{ backgroundColor: swatch.color }} />
+        ))}
+      </div>
+      <button onClick={() => fileInputRef.current?.click()} title="Import theme (JSON)" className="p-1 hover:bg-white/10 rounded-full">
+        <ArrowUpTrayIcon className="w-4 h-4" />
+      </button>
+      <button onClick={() => downloadTheme(theme)} title="Export theme (JSON)" className="p-1 hover:bg-white/10 rounded-full">
+        <ArrowDownTrayIcon className="w-4 h-4" />
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default ThemePicker;
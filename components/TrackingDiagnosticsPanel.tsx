@@ -0,0 +1,75 @@
+import React from 'react';
+import { GestureRecognizerOptions } from '../utils/gestureRecognizer';
+import { HandDiagnostics, TrackingDiagnostics } from '../utils/trackingDiagnostics';
+
+interface TrackingDiagnosticsPanelProps {
+  diagnostics: TrackingDiagnostics | null;
+  /** Resolution and frame rate the camera actually delivers. */
+  cameraSettings: MediaTrackSettings | null;
+  options: GestureRecognizerOptions;
+}
+
+const FINGER_NAMES = ['I', 'M', 'R', 'P'];
+
+const Metric: React.FC<{ label: string; value: number; hint: string; active?: boolean }> = ({ label, value, hint, active }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-white/50">{label}</span>
+    <span>
+      <span className={active ? 'text-yellow-500' : 'text-green-400'}>{value.toFixed(2)}</span>
+      <span className="text-white/30"> {hint}</span>
+    </span>
+  </div>
+);
+
+const HandReadout: React.FC<{ hand: HandDiagnostics; options: GestureRecognizerOptions }> = ({ hand, options }) => (
+  <div className="space-y-0.5 pt-1 border-t border-white/10">
+    <div className="flex justify-between">
+      <span className="text-yellow-500 uppercase">{hand.handedness} · {(hand.score * 100).toFixed(0)}%</span>
+      <span className="text-white">{hand.poses.length ? hand.poses.join(' ') : '—'}</span>
+    </div>
+    <Metric
+      label="Extension"
+      value={hand.extension}
+      hint={`fist <${options.fist.enter} open >${options.open.enter}`}
+      active={hand.extension < options.fist.enter || hand.extension > options.open.enter}
+    />
+    <Metric label="Pinch" value={hand.pinch} hint={`<${options.pinch.enter}`} active={hand.pinch < options.pinch.enter} />
+    <Metric label="Thumb lift" value={hand.thumbLift} hint={`>${options.thumbUp}`} active={hand.thumbLift > options.thumbUp} />
+    <div className="flex justify-between gap-2">
+      <span className="text-white/50">Fingers</span>
+      <span>
+        {hand.fingers.map((extension, i) => (
+          <span
+            key={FINGER_NAMES[i]}
+            className={`ml-1 ${
+              extension > options.finger.extended ? 'text-yellow-500' : extension < options.finger.curled ? 'text-green-400' : 'text-white/50'
+            }`}
+          >
+            {FINGER_NAMES[i]}{extension.toFixed(2)}
+          </span>
+        ))}
+      </span>
+    </div>
+  </div>
+);
+
+const TrackingDiagnosticsPanel: React.FC<TrackingDiagnosticsPanelProps> = ({ diagnostics, cameraSettings, options }) => (
+  <div className="font-mono text-[10px] text-green-400 space-y-1">
+    <div className="flex justify-between">
+      <span>{diagnostics ? `${diagnostics.fps.toFixed(0)} tracking fps` : '-- tracking fps'}</span>
+      {cameraSettings?.width && (
+        <span className="text-white/50">
+          {cameraSettings.width}×{cameraSettings.height}
+          {cameraSettings.frameRate ? ` @${Math.round(cameraSettings.frameRate)}` : ''}
+        </span>
+      )}
+    </div>
+    {diagnostics?.hands.length ? (
+      diagnostics.hands.map((hand, i) => <HandReadout key={i} hand={hand} options={options} />)
+    ) : (
+      <div className="text-white/40">No hands detected</div>
+    )}
+  </div>
+);
+
+export default TrackingDiagnosticsPanel;
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GestureKind } from '../types';
+import { AudioReactor, AudioSourceKind } from '../utils/audioReactor';
+
+/**
+ * Music-reactive mode state. The AudioContext is only created on the first
+ * user action, since browsers refuse to start one before that.
+ */
+export const useAudioReactor = () => {
+  const [reactor, setReactor] = useState<AudioReactor | null>(null);
+  const reactorRef = useRef<AudioReactor | null>(null);
+  const [sourceKind, setSourceKind] = useState<AudioSourceKind | null>(null);
+  const [musicVolume, setMusicVolumeState] = useState(0.8);
+  const [effectsVolume, setEffectsVolumeState] = useState(0.5);
+  const [cuesEnabled, setCuesEnabled] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // The track being played, so it can be shared in a greeting bundle
+  const [musicFile, setMusicFile] = useState<File | null>(null);
+
+  const ensureReactor = useCallback(() => {
+    if (!reactorRef.current) {
+      const created = new AudioReactor();
+      created.setMusicVolume(musicVolume);
+      created.setEffectsVolume(effectsVolume);
+      reactorRef.current = created;
+      setReactor(created);
+    }
+    return reactorRef.current;
+  }, [musicVolume, effectsVolume]);
+
+  useEffect(() => () => reactorRef.current?.dispose(), []);
+
+  const playFile = useCallback(async (file: File) => {
+    const audio = ensureReactor();
+    try {
+      await audio.playFile(file);
+      setSourceKind(audio.sourceKind);
+      setMusicFile(file);
+      setIsPaused(false);
+    } catch (err) {
+      console.error(err);
+      audio.stopSource();
+      setSourceKind(null);
+      alert('Could not play that audio file.');
+    }
+  }, [ensureReactor]);
+
+  const listenToMicrophone = useCallback(async () => {
+    const audio = ensureReactor();
+    try {
+      await audio.listenToMicrophone();
+      setSourceKind(audio.sourceKind);
+    } catch (err) {
+      console.error(err);
+      audio.stopSource();
+      setSourceKind(null);
+      alert('Microphone access was denied or is unavailable.');
+    }
+  }, [ensureReactor]);
+
+  const togglePause = useCallback(async () => {
+    const audio = reactorRef.current;
+    if (!audio) return;
+    await audio.togglePause();
+    setIsPaused(audio.isPaused);
+  }, []);
+
+  const stop = useCallback(() => {
+    reactorRef.current?.stopSource();
+    setSourceKind(null);
+  }, []);
+
+  const setMusicVolume = useCallback((volume: number) => {
+    reactorRef.current?.setMusicVolume(volume);
+    setMusicVolumeState(volume);
+  }, []);
+
+  const setEffectsVolume = useCallback((volume: number) => {
+    reactorRef.current?.setEffectsVolume(volume);
+    setEffectsVolumeState(volume);
+  }, []);
+
+  const toggleCues = useCallback(() => {
+    // Turning cues on counts as the user gesture that unlocks audio
+    if (!cuesEnabled) ensureReactor();
+    setCuesEnabled(!cuesEnabled);
+  }, [cuesEnabled, ensureReactor]);
+
+  const playCue = useCallback((gesture: GestureKind) => {
+    if (cuesEnabled) reactorRef.current?.playCue(gesture);
+  }, [cuesEnabled]);
+
+  return {
+    /** Only handed to the scene while a source is playing. */
+    reactor: sourceKind ? reactor : null,
+    sourceKind,
+    musicFile: sourceKind === 'file' ? musicFile : null,
+    playFile,
+    listenToMicrophone,
+    stop,
+    isPaused,
+    togglePause,
+    musicVolume,
+    setMusicVolume,
+    effectsVolume,
+    setEffectsVolume,
+    cuesEnabled,
+    toggleCues,
+    playCue,
+  };
+};
+
+export type AudioControls = ReturnType<typeof useAudioReactor>;
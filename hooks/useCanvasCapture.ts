@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CaptureHandle } from '../components/CaptureController';
+import { downloadBlob } from '../utils/download';
+import {
+  CanvasRecorder,
+  captureFilename,
+  DEFAULT_SNAPSHOT_OPTIONS,
+  isRecordingSupported,
+  MAX_RECORDING_MS,
+  SnapshotOptions,
+} from '../utils/capture';
+
+/** Snapshot and recording state for the scene canvas; finished captures are downloaded. */
+export const useCanvasCapture = () => {
+  const captureRef = useRef<CaptureHandle>(null);
+  const [recorder] = useState(() => new CanvasRecorder());
+  const [snapshotOptions, setSnapshotOptions] = useState<SnapshotOptions>(DEFAULT_SNAPSHOT_OPTIONS);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+
+  const snapshot = useCallback(async () => {
+    const capture = captureRef.current;
+    if (!capture || isCapturing) return;
+    setIsCapturing(true);
+    try {
+      downloadBlob(await capture.snapshot(snapshotOptions), captureFilename('png'));
+    } catch (err) {
+      console.error(err);
+      alert('Could not capture the scene.');
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [snapshotOptions, isCapturing]);
+
+  const toggleRecording = useCallback(() => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    if (recorder.isRecording) {
+      recorder.stop();
+      return;
+    }
+    recorder.start(capture.canvas, {
+      maxDurationMs: MAX_RECORDING_MS,
+      onStop: video => {
+        setRecordingStartedAt(null);
+        downloadBlob(video, captureFilename('webm'));
+      },
+    });
+    setRecordingStartedAt(Date.now());
+  }, [recorder]);
+
+  useEffect(() => () => recorder.stop(), [recorder]);
+
+  return {
+    captureRef,
+    snapshotOptions,
+    setSnapshotOptions,
+    isCapturing,
+    snapshot,
+    canRecord: isRecordingSupported(),
+    recordingStartedAt,
+    toggleRecording,
+  };
+};
+
+export type CanvasCapture = ReturnType<typeof useCanvasCapture>;
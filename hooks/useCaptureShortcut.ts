@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { HandGesture } from '../types';
+
+// How long both fists must be held before the shortcut fires
+const HOLD_MS = 1000;
+
+/**
+ * Hands-free capture: holding a fist with both hands fires `onTrigger` once.
+ * The hands have to open again before it can fire a second time.
+ */
+export const useCaptureShortcut = (gesture: HandGesture | null, onTrigger: () => void) => {
+  const heldSinceRef = useRef<number | null>(null);
+  const firedRef = useRef(false);
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  useEffect(() => {
+    const bothFists = !!gesture?.isFist && !!gesture.otherHand?.isFist;
+    if (!bothFists) {
+      heldSinceRef.current = null;
+      firedRef.current = false;
+      return;
+    }
+    const now = performance.now();
+    heldSinceRef.current ??= now;
+    if (!firedRef.current && now - heldSinceRef.current >= HOLD_MS) {
+      firedRef.current = true;
+      onTriggerRef.current();
+    }
+  }, [gesture]);
+};
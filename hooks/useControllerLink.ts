@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HandGesture } from '../types';
+import { AppEvent } from '../utils/appMachine';
+import { getRelayUrl, HEARTBEAT_MS, Link, LINK_TIMEOUT_MS, LinkState, openLink, stripGesture } from '../utils/displayLink';
+
+export interface ControllerLinkHandlers {
+  onHover: (photoId: string | null) => void;
+  onPlace: (id: string, slot: number) => void;
+  onEvent: (event: AppEvent) => void;
+}
+
+/**
+ * Controller side of the display link: publishes `state` whenever it
+ * changes (and to every display that says hello), streams gestures, and
+ * applies what displays report back.
+ */
+export const useControllerLink = (enabled: boolean, state: LinkState, handlers: ControllerLinkHandlers) => {
+  const [isDisplayConnected, setIsDisplayConnected] = useState(false);
+  const linkRef = useRef<Link | null>(null);
+  const lastHeardRef = useRef(0);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const sendState = () => linkRef.current?.send({ type: 'state', state: stateRef.current });
+    const link = openLink({
+      role: 'controller',
+      relayUrl: getRelayUrl(),
+      // Covers a reloaded controller: displays pick up the fresh state without asking
+      onConnect: sendState,
+      onMessage: (message, from) => {
+        if (from !== 'display') return;
+        lastHeardRef.current = performance.now();
+        setIsDisplayConnected(true);
+        switch (message.type) {
+          case 'hello':
+            sendState();
+            break;
+          case 'hover':
+            handlersRef.current.onHover(message.photoId);
+            break;
+          case 'place':
+            handlersRef.current.onPlace(message.id, message.slot);
+            break;
+          case 'event':
+            handlersRef.current.onEvent(message.event);
+            break;
+        }
+      },
+    });
+    linkRef.current = link;
+
+    const heartbeat = setInterval(() => {
+      link.send({ type: 'heartbeat' });
+      if (performance.now() - lastHeardRef.current > LINK_TIMEOUT_MS) setIsDisplayConnected(false);
+    }, HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      link.close();
+      linkRef.current = null;
+      setIsDisplayConnected(false);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    linkRef.current?.send({ type: 'state', state });
+  }, [state]);
+
+  const sendGesture = useCallback((gesture: HandGesture | null) => {
+    linkRef.current?.send({ type: 'gesture', gesture: stripGesture(gesture) });
+  }, []);
+
+  return { isDisplayConnected, sendGesture };
+};
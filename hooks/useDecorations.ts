@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CustomLayout, OrnamentKind } from '../types';
+import { PhotoLibrary } from './usePhotoLibrary';
+import { createId } from '../utils/photoStore';
+import { assignSlots, EMPTY_LAYOUT, slotCount } from '../utils/decorations';
+
+// Undo steps kept per album session
+const MAX_HISTORY = 50;
+
+interface History {
+  albumId: string | null;
+  past: CustomLayout[];
+  present: CustomLayout;
+  future: CustomLayout[];
+  /** Set by edits (including undo/redo), which are saved; loading an album is not. */
+  dirty: boolean;
+}
+
+const fresh = (albumId: string | null, present: CustomLayout): History => ({ albumId, past: [], present, future: [], dirty: false });
+
+/**
+ * Decorate-mode state for the active album: where each photo and added
+ * ornament sits on the tree, with undo/redo. Every change is saved with the
+ * album; switching albums loads that album's layout and clears the history.
+ */
+export const useDecorations = (library: PhotoLibrary) => {
+  const { activeAlbumId, albums, photos, saveLayout } = library;
+  const albumLayout = albums.find(a => a.id === activeAlbumId)?.layout ?? EMPTY_LAYOUT;
+  const [history, setHistory] = useState<History>(() => fresh(activeAlbumId, albumLayout));
+
+  // Our own saves come back through `albums` unchanged; a different album or an outside
+  // change (such as an imported greeting) starts over from the album's layout
+  useEffect(() => {
+    setHistory(h => h.albumId === activeAlbumId && h.present === albumLayout ? h : fresh(activeAlbumId, albumLayout));
+  }, [activeAlbumId, albumLayout]);
+
+  useEffect(() => {
+    if (!history.dirty || !history.albumId) return;
+    saveLayout(history.albumId, history.present).catch(err => console.error('Could not save layout', err));
+  }, [history, saveLayout]);
+
+  const { ornaments } = history.present;
+  const itemIds = useMemo(() => [...photos.map(p => p.id), ...ornaments.map(o => o.id)], [photos, ornaments]);
+  const slots = useMemo(() => assignSlots(itemIds, history.present.slots), [itemIds, history.present.slots]);
+  const count = slotCount(itemIds.length, history.present.slots);
+
+  const commit = useCallback((change: (layout: CustomLayout) => CustomLayout) => {
+    setHistory(h => ({ ...h, past: [...h.past, h.present].slice(-MAX_HISTORY), present: change(h.present), future: [], dirty: true }));
+  }, []);
+
+  /** Moves an item to `slot`. Everything else is pinned where it is so nothing shifts to fill the gap. */
+  const place = useCallback((id: string, slot: number) => {
+    if (slots.get(id) === slot) return;
+    commit(layout => ({ ...layout, slots: { ...Object.fromEntries(slots), [id]: slot } }));
+  }, [commit, slots]);
+
+  const addOrnament = useCallback((kind: OrnamentKind) => {
+    commit(layout => ({ ...layout, ornaments: [...layout.ornaments, { id: createId(), kind }] }));
+  }, [commit]);
+
+  /** Back to index-based placement without added ornaments (undoable). */
+  const reset = useCallback(() => commit(() => EMPTY_LAYOUT), [commit]);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      ...h,
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      dirty: true,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      ...h,
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      dirty: true,
+    });
+  }, []);
+
+  return {
+    layout: history.present,
+    ornaments,
+    slots,
+    slotCount: count,
+    place,
+    addOrnament,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
+
+export type Decorations = ReturnType<typeof useDecorations>;
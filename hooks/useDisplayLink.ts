@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HandGesture } from '../types';
+import { AppEvent } from '../utils/appMachine';
+import { getRelayUrl, HEARTBEAT_MS, Link, LINK_TIMEOUT_MS, LinkMessage, LinkState, openLink } from '../utils/displayLink';
+
+/**
+ * Display side of the display link: asks for the controller's state on
+ * every (re)connect and mirrors it, along with the live gesture. Messages
+ * back to the controller are fire-and-forget.
+ */
+export const useDisplayLink = () => {
+  const [state, setState] = useState<LinkState | null>(null);
+  const [gesture, setGesture] = useState<HandGesture | null>(null);
+  const [isControllerConnected, setIsControllerConnected] = useState(false);
+  const linkRef = useRef<Link | null>(null);
+  const lastHeardRef = useRef(0);
+
+  useEffect(() => {
+    const link = openLink({
+      role: 'display',
+      relayUrl: getRelayUrl(),
+      onConnect: () => linkRef.current?.send({ type: 'hello' }),
+      onMessage: (message, from) => {
+        if (from !== 'controller') return;
+        lastHeardRef.current = performance.now();
+        setIsControllerConnected(true);
+        if (message.type === 'state') setState(message.state);
+        else if (message.type === 'gesture') setGesture(message.gesture);
+      },
+    });
+    linkRef.current = link;
+
+    const heartbeat = setInterval(() => {
+      link.send({ type: 'heartbeat' });
+      if (performance.now() - lastHeardRef.current > LINK_TIMEOUT_MS) {
+        setIsControllerConnected(false);
+        // No hand while the controller is away; keep asking so a restarted one resyncs at once
+        setGesture(null);
+        link.send({ type: 'hello' });
+      }
+    }, HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      link.close();
+      linkRef.current = null;
+    };
+  }, []);
+
+  const send = useCallback((message: LinkMessage) => linkRef.current?.send(message), []);
+  const sendHover = useCallback((photoId: string | null) => send({ type: 'hover', photoId }), [send]);
+  const sendPlace = useCallback((id: string, slot: number) => send({ type: 'place', id, slot }), [send]);
+  const sendEvent = useCallback((event: AppEvent) => send({ type: 'event', event }), [send]);
+
+  return { state, gesture, isControllerConnected, sendHover, sendPlace, sendEvent };
+};
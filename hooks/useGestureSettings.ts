@@ -0,0 +1,24 @@
+import { useCallback, useState } from 'react';
+import { GestureRecognizerOptions } from '../utils/gestureRecognizer';
+import { DEFAULT_BINDINGS, GestureBindings, loadBindings, saveBindings } from '../utils/gestureBindings';
+import { loadCalibration, saveCalibration } from '../utils/calibration';
+
+/** Gesture-to-action bindings and calibrated recognizer thresholds, both persisted locally. */
+export const useGestureSettings = () => {
+  const [bindings, setBindingsState] = useState(loadBindings);
+  const [calibration, setCalibrationState] = useState(loadCalibration);
+
+  const setBindings = useCallback((next: GestureBindings) => {
+    saveBindings(next);
+    setBindingsState(next);
+  }, []);
+
+  const resetBindings = useCallback(() => setBindings({ ...DEFAULT_BINDINGS }), [setBindings]);
+
+  const setCalibration = useCallback((options: Partial<GestureRecognizerOptions> | null) => {
+    saveCalibration(options);
+    setCalibrationState(options);
+  }, []);
+
+  return { bindings, setBindings, resetBindings, calibration, setCalibration };
+};
@@ -0,0 +1,90 @@
+import { useCallback, useState } from 'react';
+import { CustomLayout, Theme } from '../types';
+import { PhotoLibrary } from './usePhotoLibrary';
+import { downloadBlob } from '../utils/download';
+import { BUILT_IN_THEMES } from '../utils/themes';
+import { LayoutSelection } from '../utils/layouts';
+import {
+  buildGreetingBundle,
+  greetingFilename,
+  openGreetingBundle,
+  remapDecorations,
+} from '../utils/greetingBundle';
+
+interface SceneAccess {
+  library: PhotoLibrary;
+  decorations: CustomLayout;
+  theme: Theme;
+  seed: number;
+  layout: LayoutSelection;
+  musicFile: File | null;
+  selectTheme: (id: string) => void;
+  importTheme: (json: string) => void;
+  setSeed: (seed: number) => void;
+  setLayout: (layout: LayoutSelection) => void;
+}
+
+/** A greeting that was just opened: its message, plus music waiting for a click to start. */
+export interface ReceivedGreeting {
+  message: string;
+  music: File | null;
+}
+
+const RECEIVED_ALBUM_NAME = 'Shared Greeting';
+
+/** Exports the current scene as a greeting bundle and rebuilds scenes from received ones. */
+export const useGreetingBundle = (scene: SceneAccess) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const [received, setReceived] = useState<ReceivedGreeting | null>(null);
+  const { library, decorations, theme, seed, layout, musicFile, selectTheme, importTheme, setSeed, setLayout } = scene;
+
+  const exportGreeting = useCallback(async (greeting: string, includeMusic: boolean) => {
+    setIsBusy(true);
+    try {
+      const bundle = await buildGreetingBundle({
+        greeting,
+        seed,
+        layout,
+        theme,
+        decorations,
+        photos: library.photos,
+        music: includeMusic ? musicFile : null,
+      });
+      downloadBlob(bundle, greetingFilename());
+    } catch (err) {
+      console.error(err);
+      alert('Could not export the greeting.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [seed, layout, theme, decorations, library.photos, musicFile]);
+
+  const openGreeting = useCallback(async (file: File) => {
+    setIsBusy(true);
+    try {
+      const greeting = await openGreetingBundle(file);
+      await library.importAlbum(
+        RECEIVED_ALBUM_NAME,
+        greeting.photos,
+        ids => remapDecorations(greeting.decorations, new Map(greeting.photos.map((photo, i) => [photo.id, ids[i]])))
+      );
+      // Built-in themes are the same everywhere; anything else is added as a custom theme
+      if (BUILT_IN_THEMES.some(t => t.id === greeting.theme.id)) selectTheme(greeting.theme.id);
+      else importTheme(JSON.stringify(greeting.theme));
+      setSeed(greeting.seed);
+      setLayout(greeting.layout);
+      setReceived({ message: greeting.greeting, music: greeting.music });
+    } catch (err) {
+      console.error(err);
+      alert(`Could not open that greeting: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [library.importAlbum, selectTheme, importTheme, setSeed, setLayout]);
+
+  const dismissGreeting = useCallback(() => setReceived(null), []);
+
+  return { isBusy, received, exportGreeting, openGreeting, dismissGreeting };
+};
+
+export type GreetingBundle = ReturnType<typeof useGreetingBundle>;
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Album, CustomLayout, PhotoData } from '../types';
+import * as store from '../utils/photoStore';
+import { ingestImage, IngestedImage } from '../utils/imageIngest';
+import { estimateTextureBytes } from '../utils/textureBudget';
+
+const DEFAULT_ALBUM_NAME = 'My Photos';
+// Used when IndexedDB is unavailable (e.g. some private browsing modes)
+const MEMORY_ALBUM: Album = { id: 'memory', name: DEFAULT_ALBUM_NAME, createdAt: 0 };
+
+/**
+ * Photo library backed by IndexedDB. Owns the object URLs handed to the
+ * scene and revokes them when photos are removed or the album changes.
+ */
+export const usePhotoLibrary = () => {
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [activeAlbumId, setActiveAlbumId] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const [isPersistent, setIsPersistent] = useState(true);
+  // Bumped to reload the active album after another window changed it
+  const [reloadKey, setReloadKey] = useState(0);
+  const urlsRef = useRef(new Map<string, string[]>());
+  const initStartedRef = useRef(false);
+
+  const toPhotoData = (photo: store.StoredPhoto & IngestedImage): PhotoData => {
+    const urls = [photo.blob, photo.texture, photo.thumbnail].map(blob => URL.createObjectURL(blob));
+    urlsRef.current.set(photo.id, urls);
+    const { blob, order, texture, thumbnail, width, height, ...meta } = photo;
+    return {
+      ...meta,
+      url: urls[0],
+      textureUrl: urls[1],
+      thumbnailUrl: urls[2],
+      aspect: width / height,
+      textureBytes: estimateTextureBytes(width, height),
+    };
+  };
+
+  /** Photos saved before ingestion existed get their texture and thumbnail generated once. */
+  const ensureIngested = async (photo: store.StoredPhoto): Promise<store.StoredPhoto & IngestedImage> => {
+    if (photo.texture && photo.thumbnail && photo.width && photo.height) {
+      return photo as store.StoredPhoto & IngestedImage;
+    }
+    const image = await ingestImage(photo.blob);
+    await store.updatePhoto(photo.id, image);
+    return { ...photo, ...image };
+  };
+
+  const revoke = (id: string) => {
+    urlsRef.current.get(id)?.forEach(url => URL.revokeObjectURL(url));
+    urlsRef.current.delete(id);
+  };
+
+  const revokeAll = () => {
+    urlsRef.current.forEach(urls => urls.forEach(url => URL.revokeObjectURL(url)));
+    urlsRef.current.clear();
+  };
+
+  // Restore albums and the last active album on load
+  useEffect(() => {
+    // Guard against StrictMode's double mount creating two default albums
+    if (initStartedRef.current) return revokeAll;
+    initStartedRef.current = true;
+    const init = async () => {
+      try {
+        let list = await store.listAlbums();
+        if (list.length === 0) list = [await store.createAlbum(DEFAULT_ALBUM_NAME)];
+        const saved = store.getActiveAlbumId();
+        setAlbums(list);
+        setActiveAlbumId(list.some(a => a.id === saved) ? saved : list[0].id);
+      } catch (err) {
+        console.error('Photo library unavailable, photos will not persist', err);
+        setIsPersistent(false);
+        setAlbums([MEMORY_ALBUM]);
+        setActiveAlbumId(MEMORY_ALBUM.id);
+      }
+    };
+    init();
+    return revokeAll;
+  }, []);
+
+  // Load the active album's photos
+  useEffect(() => {
+    if (!activeAlbumId || !isPersistent) return;
+    let cancelled = false;
+    store.setActiveAlbumId(activeAlbumId);
+    store.listPhotos(activeAlbumId).then(list => Promise.allSettled(list.map(ensureIngested))).then(results => {
+      if (cancelled) return;
+      // A photo that cannot be decoded is left out rather than emptying the whole album
+      const stored = results.flatMap(result => {
+        if (result.status === 'fulfilled') return [result.value];
+        console.error('Skipping a photo that could not be decoded', result.reason);
+        return [];
+      });
+      revokeAll();
+      setPhotos(stored.map(toPhotoData));
+    }).catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeAlbumId, isPersistent, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey(key => key + 1), []);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    if (!activeAlbumId || files.length === 0) return;
+    const uploads: { file: File; image: IngestedImage }[] = [];
+    for (const file of files) {
+      try {
+        uploads.push({ file, image: await ingestImage(file) });
+      } catch (err) {
+        console.error(`Skipping ${file.name}: could not decode image`, err);
+      }
+    }
+    if (uploads.length === 0) return;
+
+    const added = isPersistent
+      ? await store.addPhotos(activeAlbumId, uploads)
+      : uploads.map(({ file, image }) => store.createStoredPhoto(activeAlbumId, file, image));
+    setPhotos(prev => [...prev, ...added.map(photo => toPhotoData(photo as store.StoredPhoto & IngestedImage))]);
+  }, [activeAlbumId, isPersistent]);
+
+  const removePhoto = useCallback(async (id: string) => {
+    if (isPersistent) await store.deletePhoto(id);
+    revoke(id);
+    setPhotos(prev => prev.filter(p => p.id !== id));
+  }, [isPersistent]);
+
+  /** Moves a photo by `offset` positions within the album. */
+  const movePhoto = useCallback(async (id: string, offset: number) => {
+    const from = photos.findIndex(p => p.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= photos.length) return;
+    const next = [...photos];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setPhotos(next);
+    if (isPersistent) await store.reorderPhotos(next.map(p => p.id));
+  }, [photos, isPersistent]);
+
+  const setCaption = useCallback(async (id: string, caption: string) => {
+    setPhotos(prev => prev.map(p => (p.id === id ? { ...p, caption } : p)));
+    if (isPersistent) await store.updatePhoto(id, { caption });
+  }, [isPersistent]);
+
+  const createAlbum = useCallback(async (name: string) => {
+    if (!isPersistent) return;
+    const album = await store.createAlbum(name);
+    setAlbums(prev => [...prev, album]);
+    setActiveAlbumId(album.id);
+  }, [isPersistent]);
+
+  const renameAlbum = useCallback(async (id: string, name: string) => {
+    if (!isPersistent) return;
+    await store.renameAlbum(id, name);
+    setAlbums(prev => prev.map(a => (a.id === id ? { ...a, name } : a)));
+  }, [isPersistent]);
+
+  /** Stores the decorate-mode layout with the album, so it comes back with its photos. */
+  const saveLayout = useCallback(async (id: string, layout: CustomLayout) => {
+    setAlbums(prev => prev.map(a => (a.id === id ? { ...a, layout } : a)));
+    if (isPersistent) await store.saveAlbumLayout(id, layout);
+  }, [isPersistent]);
+
+  /**
+   * Creates an album from a shared greeting and switches to it. `layoutFor`
+   * receives the new photo ids (in upload order) and returns the album's
+   * decorations, so they are in place when the album loads. Without
+   * persistent storage the current photos are replaced instead.
+   */
+  const importAlbum = useCallback(async (
+    name: string,
+    uploads: { file: File; caption: string }[],
+    layoutFor: (photoIds: string[]) => CustomLayout
+  ) => {
+    const ingested: { file: File; image: IngestedImage; caption: string }[] = [];
+    for (const upload of uploads) {
+      ingested.push({ ...upload, image: await ingestImage(upload.file) });
+    }
+
+    if (!isPersistent) {
+      const added = ingested.map(({ file, image, caption }, i) => store.createStoredPhoto(MEMORY_ALBUM.id, file, image, i, caption));
+      const layout = layoutFor(added.map(photo => photo.id));
+      revokeAll();
+      setAlbums([{ ...MEMORY_ALBUM, layout }]);
+      setPhotos(added.map(photo => toPhotoData(photo as store.StoredPhoto & IngestedImage)));
+      return;
+    }
+
+    const album = await store.createAlbum(name);
+    const added = await store.addPhotos(album.id, ingested);
+    const layout = layoutFor(added.map(photo => photo.id));
+    await store.saveAlbumLayout(album.id, layout);
+    setAlbums(prev => [...prev, { ...album, layout }]);
+    setActiveAlbumId(album.id);
+  }, [isPersistent]);
+
+  const deleteAlbum = useCallback(async (id: string) => {
+    // Always keep at least one album to add photos to
+    if (!isPersistent || albums.length <= 1) return;
+    await store.deleteAlbum(id);
+    const remaining = albums.filter(a => a.id !== id);
+    setAlbums(remaining);
+    if (activeAlbumId === id) setActiveAlbumId(remaining[0].id);
+  }, [albums, activeAlbumId, isPersistent]);
+
+  return {
+    albums,
+    activeAlbumId,
+    photos,
+    isPersistent,
+    selectAlbum: setActiveAlbumId,
+    reload,
+    addFiles,
+    removePhoto,
+    movePhoto,
+    setCaption,
+    createAlbum,
+    renameAlbum,
+    saveLayout,
+    importAlbum,
+    deleteAlbum,
+  };
+};
+
+export type PhotoLibrary = ReturnType<typeof usePhotoLibrary>;
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+
+/**
+ * Loads a texture while `url` is set and disposes it (freeing GPU memory) as
+ * soon as the url changes or is cleared. Unlike drei's `useTexture` nothing is
+ * cached, which is what lets the texture budget actually release memory.
+ */
+export const usePhotoTexture = (url: string | null) => {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setTexture(null);
+      return;
+    }
+    let cancelled = false;
+    let loaded: THREE.Texture | null = null;
+    new THREE.TextureLoader().load(url, tex => {
+      if (cancelled) {
+        tex.dispose();
+        return;
+      }
+      tex.colorSpace = THREE.SRGBColorSpace;
+      loaded = tex;
+      setTexture(tex);
+    });
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+      setTexture(null);
+    };
+  }, [url]);
+
+  return texture;
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppMachine } from '../utils/appMachine';
+import {
+  buildTimeline,
+  CameraPathKind,
+  loadPresentationSettings,
+  PresentationSettings,
+  savePresentationSettings,
+} from '../utils/presentation';
+
+/** The scripted camera move the scene should follow right now. */
+export interface CameraShot {
+  path: CameraPathKind;
+  startedAt: number;
+  seconds: number;
+}
+
+/**
+ * Unattended presentation mode. Steps through the timeline on timers and
+ * drives the state machine; any hand input takes over, and autoplay resumes
+ * from the current step after `resumeAfterSeconds` without input.
+ */
+export const usePresentation = (machine: AppMachine, photoIds: string[]) => {
+  const [settings, setSettingsState] = useState(loadPresentationSettings);
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [isTakenOver, setIsTakenOver] = useState(false);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [stepStartedAt, setStepStartedAt] = useState(0);
+  const lastActivityRef = useRef(0);
+  // Read from notifyActivity, which runs for every tracked frame and must stay cheap
+  const stateRef = useRef({ isPresenting, isTakenOver });
+  stateRef.current = { isPresenting, isTakenOver };
+
+  const timeline = useMemo(() => buildTimeline(photoIds, settings), [photoIds, settings]);
+  const step = timeline[stepIndex % timeline.length];
+
+  useEffect(() => {
+    if (!isPresenting || isTakenOver) return;
+    machine.send(step.event);
+    setStepStartedAt(performance.now());
+    const id = setTimeout(() => setStepIndex(i => (i + 1) % timeline.length), step.seconds * 1000);
+    return () => clearTimeout(id);
+  }, [isPresenting, isTakenOver, step, timeline.length, machine]);
+
+  // While a person is in control, hand the scene back once they stop
+  useEffect(() => {
+    if (!isPresenting || !isTakenOver) return;
+    const id = setInterval(() => {
+      if (performance.now() - lastActivityRef.current >= settings.resumeAfterSeconds * 1000) setIsTakenOver(false);
+    }, 500);
+    return () => clearInterval(id);
+  }, [isPresenting, isTakenOver, settings.resumeAfterSeconds]);
+
+  const notifyActivity = useCallback(() => {
+    lastActivityRef.current = performance.now();
+    const { isPresenting, isTakenOver } = stateRef.current;
+    if (isPresenting && !isTakenOver) setIsTakenOver(true);
+  }, []);
+
+  const start = useCallback(() => {
+    setStepIndex(0);
+    setIsTakenOver(false);
+    setIsPresenting(true);
+  }, []);
+
+  const stop = useCallback(() => setIsPresenting(false), []);
+
+  const setSettings = useCallback((next: PresentationSettings) => {
+    savePresentationSettings(next);
+    setSettingsState(next);
+  }, []);
+
+  const shot: CameraShot | null = isPresenting && !isTakenOver && step.path
+    ? { path: step.path, startedAt: stepStartedAt, seconds: step.seconds }
+    : null;
+
+  return {
+    isPresenting,
+    isTakenOver,
+    stepIndex: stepIndex % timeline.length,
+    stepCount: timeline.length,
+    shot,
+    settings,
+    setSettings,
+    start,
+    stop,
+    notifyActivity,
+  };
+};
+
+export type Presentation = ReturnType<typeof usePresentation>;
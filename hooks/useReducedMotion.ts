@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MotionSetting } from '../types';
+
+const MOTION_SETTING_KEY = 'golden-christmas.reducedMotion';
+const MOTION_SETTINGS: MotionSetting[] = ['system', 'reduced', 'full'];
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const readSetting = (): MotionSetting => {
+  const saved = localStorage.getItem(MOTION_SETTING_KEY) as MotionSetting;
+  return MOTION_SETTINGS.includes(saved) ? saved : 'system';
+};
+
+const prefersReducedMotion = () => typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+/**
+ * Whether the scene should hold still. Follows the OS preference unless the
+ * user picked a setting, which is saved across sessions.
+ */
+export const useReducedMotion = () => {
+  const [setting, setSettingState] = useState(readSetting);
+  const [systemPrefers, setSystemPrefers] = useState(prefersReducedMotion);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setSystemPrefers(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  const setSetting = useCallback((next: MotionSetting) => {
+    localStorage.setItem(MOTION_SETTING_KEY, next);
+    setSettingState(next);
+  }, []);
+
+  const isReduced = setting === 'system' ? systemPrefers : setting === 'reduced';
+
+  return { setting, setSetting, isReduced };
+};
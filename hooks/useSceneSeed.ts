@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+import { randomSeed } from '../utils/random';
+
+const PINNED_SEED_KEY = 'golden-christmas.seed';
+
+const readPinned = () => {
+  const saved = localStorage.getItem(PINNED_SEED_KEY);
+  const seed = saved === null ? NaN : Number(saved);
+  return Number.isFinite(seed) ? seed >>> 0 : null;
+};
+
+/**
+ * The scene seed. A pinned seed is saved and reused on every load; an
+ * unpinned one is rolled fresh each time the app starts.
+ */
+export const useSceneSeed = () => {
+  const [seed, setSeedState] = useState(() => readPinned() ?? randomSeed());
+  const [isPinned, setIsPinned] = useState(() => readPinned() !== null);
+
+  const setSeed = useCallback((next: number) => {
+    setSeedState(next);
+    if (isPinned) localStorage.setItem(PINNED_SEED_KEY, String(next));
+  }, [isPinned]);
+
+  const reroll = useCallback(() => setSeed(randomSeed()), [setSeed]);
+
+  const togglePin = useCallback(() => {
+    if (isPinned) localStorage.removeItem(PINNED_SEED_KEY);
+    else localStorage.setItem(PINNED_SEED_KEY, String(seed));
+    setIsPinned(!isPinned);
+  }, [isPinned, seed]);
+
+  return { seed, isPinned, setSeed, reroll, togglePin };
+};
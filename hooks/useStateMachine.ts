@@ -0,0 +1,17 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { HistoryEntry, MachineEvent, Snapshot, StateMachine } from '../utils/stateMachine';
+
+/** Subscribes a component to a machine's snapshot. */
+export const useStateMachine = <S extends string, C, E extends MachineEvent>(machine: StateMachine<S, C, E>) =>
+  useSyncExternalStore(machine.subscribe, machine.getSnapshot);
+
+/**
+ * Runs `listener` on every transition of `machine`, e.g. to hook entry into a
+ * state. The listener should be memoized to avoid resubscribing every render.
+ */
+export const useTransitionListener = <S extends string, C, E extends MachineEvent>(
+  machine: StateMachine<S, C, E>,
+  listener: (snapshot: Snapshot<S, C>, transition: HistoryEntry<S, E>) => void
+) => {
+  useEffect(() => machine.subscribe(listener), [machine, listener]);
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { GestureEvent, GestureKind, Handedness, HandGesture } from '../types';
+
+interface PendingGesture {
+  gesture: GestureKind;
+  handedness?: Handedness;
+  from: { x: number; y: number } | null;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const handFor = (gesture: HandGesture | null, handedness?: Handedness) =>
+  !gesture || !handedness || gesture.handedness === handedness ? gesture : gesture.otherHand ?? null;
+
+/**
+ * Runs a gesture's action only once the pose has been held still for
+ * `holdMs`. For gestures that are easy to make by accident: the open palm
+ * is also the shape of a hand relaxing out of a pinch or swiping.
+ * Releasing the pose, starting any other gesture or moving the hand more
+ * than `maxDrift` (normalized screen units) cancels it.
+ */
+export const useSteadyGesture = (holdMs: number, maxDrift: number) => {
+  const pendingRef = useRef<PendingGesture | null>(null);
+
+  const cancel = useCallback(() => {
+    if (pendingRef.current) clearTimeout(pendingRef.current.timer);
+    pendingRef.current = null;
+  }, []);
+
+  /** Starts holding `event`; `onHeld` runs if it survives. */
+  const hold = useCallback((event: GestureEvent, gesture: HandGesture | null, onHeld: () => void) => {
+    cancel();
+    const hand = handFor(gesture, event.handedness);
+    pendingRef.current = {
+      gesture: event.gesture,
+      handedness: event.handedness,
+      from: hand ? { ...hand.position } : null,
+      timer: setTimeout(() => {
+        pendingRef.current = null;
+        onHeld();
+      }, holdMs),
+    };
+  }, [cancel, holdMs]);
+
+  /** Feed every gesture event; anything but the held pose continuing cancels it. */
+  const handleEvent = useCallback((event: GestureEvent) => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    if (event.type === 'start' || (event.gesture === pending.gesture && event.handedness === pending.handedness)) cancel();
+  }, [cancel]);
+
+  /** Feed every tracked frame; a hand on the move is not holding still. */
+  const track = useCallback((gesture: HandGesture) => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    const hand = handFor(gesture, pending.handedness);
+    if (!hand) return;
+    if (!pending.from) {
+      pending.from = { ...hand.position };
+      return;
+    }
+    if (Math.hypot(hand.position.x - pending.from.x, hand.position.y - pending.from.y) > maxDrift) cancel();
+  }, [cancel, maxDrift]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { hold, handleEvent, track, cancel };
+};
@@ -0,0 +1,17 @@
+import { useEffect, useRef, useState } from 'react';
+import { GestureHandlers } from '../types';
+import { SyntheticHand } from '../utils/syntheticHand';
+
+/** A SyntheticHand that always reports to the latest handlers and releases its poses on unmount. */
+export const useSyntheticHand = ({ onGesture, onGestureEvent }: GestureHandlers) => {
+  const handlersRef = useRef<GestureHandlers>({ onGesture, onGestureEvent });
+  handlersRef.current = { onGesture, onGestureEvent };
+
+  const [hand] = useState(() => new SyntheticHand({
+    onGesture: gesture => handlersRef.current.onGesture(gesture),
+    onGestureEvent: event => handlersRef.current.onGestureEvent?.(event),
+  }));
+
+  useEffect(() => () => hand.release(), [hand]);
+  return hand;
+};
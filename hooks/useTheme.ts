@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { Theme } from '../types';
+import { BUILT_IN_THEMES, CLASSIC_THEME, parseTheme } from '../utils/themes';
+
+const ACTIVE_THEME_KEY = 'golden-christmas.theme';
+const CUSTOM_THEMES_KEY = 'golden-christmas.customThemes';
+
+const readCustomThemes = (): Theme[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) ?? '[]');
+    // Re-validate so a hand-edited entry cannot break the scene
+    return Array.isArray(saved) ? saved.map(theme => parseTheme(JSON.stringify(theme))) : [];
+  } catch (err) {
+    console.warn('Ignoring saved custom themes', err);
+    return [];
+  }
+};
+
+/** Built-in themes plus imported ones; the active theme and imports persist in localStorage. */
+export const useTheme = () => {
+  const [customThemes, setCustomThemes] = useState(readCustomThemes);
+  const [themeId, setThemeId] = useState(() => localStorage.getItem(ACTIVE_THEME_KEY) ?? CLASSIC_THEME.id);
+
+  const themes = [...BUILT_IN_THEMES, ...customThemes];
+  const theme = themes.find(t => t.id === themeId) ?? CLASSIC_THEME;
+
+  const selectTheme = useCallback((id: string) => {
+    localStorage.setItem(ACTIVE_THEME_KEY, id);
+    setThemeId(id);
+  }, []);
+
+  /** Adds (or replaces) a custom theme from JSON and switches to it. Throws on invalid files. */
+  const importTheme = useCallback((json: string) => {
+    const imported = parseTheme(json);
+    // Built-ins cannot be overwritten; a clashing import gets its own id
+    if (BUILT_IN_THEMES.some(t => t.id === imported.id)) imported.id = `${imported.id}-custom`;
+    setCustomThemes(prev => {
+      const next = [...prev.filter(t => t.id !== imported.id), imported];
+      localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(next));
+      return next;
+    });
+    selectTheme(imported.id);
+  }, [selectTheme]);
+
+  return { theme, themes, selectTheme, importTheme };
+};
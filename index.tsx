@@ -2,6 +2,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import DisplayView from './components/DisplayView';
+import { getViewRole } from './utils/displayLink';
+import { registerServiceWorker } from './utils/serviceWorker';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +15,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {getViewRole() === 'display' ? <DisplayView /> : <App />}
   </React.StrictMode>
 );
+
+registerServiceWorker();
@@ -0,0 +1,27 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import type { Plugin } from 'vite';
+
+// Files outside the bundle, listed by hand: the page itself (Vite writes index.html
+// after generateBundle) and the files copied from public/
+const EXTRA_FILES = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+
+/**
+ * Emits sw.js with the list of every file in the build, so the service worker
+ * can precache the whole app. The cache name changes whenever the file set does.
+ */
+export const precacheServiceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `./${file}`);
+    const urls = [...new Set([...files, ...EXTRA_FILES])];
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    const template = readFileSync(new URL('./serviceWorker.js', import.meta.url), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `const PRECACHE_VERSION = ${JSON.stringify(version)};\nconst PRECACHE_URLS = ${JSON.stringify(urls)};\n\n${template}`,
+    });
+  },
+});
@@ -0,0 +1,52 @@
+// PRECACHE_VERSION and PRECACHE_URLS are prepended at build time (see precachePlugin.ts)
+const CACHE_NAME = `golden-christmas-${PRECACHE_VERSION}`;
+
+self.addEventListener('install', event => {
+  // Everything the app can ever load, tracker model included, so it works offline after one visit
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (key, response) => {
+  if (!response.ok) return;
+  const copy = response.clone();
+  caches.open(CACHE_NAME).then(cache => cache.put(key, copy));
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages: network first so a new deploy is picked up, the cached shell when offline.
+  // Every view is the same page (the view is in the query), so it is kept as index.html
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          putInCache('./index.html', response);
+          return response;
+        })
+        .catch(() => caches.match('./index.html'))
+    );
+    return;
+  }
+
+  // Build assets have content hashes in their names, so the cached copy is always right
+  event.respondWith(
+    caches.match(request).then(cached => cached ?? fetch(request).then(response => {
+      putInCache(request, response);
+      return response;
+    }))
+  );
+});
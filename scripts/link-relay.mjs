@@ -0,0 +1,111 @@
+// Minimal WebSocket relay for linking a controller and display on different
+// devices: every text message from one client is forwarded to all the others.
+// Usage: node scripts/link-relay.mjs [port]   (default 8787)
+// Then open the app with ?relay=ws://<this-machine>:<port> on both devices.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Link messages are small JSON; anything bigger is not ours
+const MAX_PAYLOAD = 1024 * 1024;
+
+const clients = new Set();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/** Pulls complete frames off the front of `buffer`; returns the unread rest. */
+const readFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length > MAX_PAYLOAD) throw new Error('Frame too large');
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Golden Christmas link relay: connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  clients.add(socket);
+  console.log(`client connected (${clients.size} total)`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x1) {
+          const frame = encodeFrame(0x1, payload);
+          clients.forEach(client => {
+            if (client !== socket && client.writable) client.write(frame);
+          });
+        } else if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(0xa, payload));
+        }
+      });
+    } catch (err) {
+      console.warn(`dropping client: ${err.message}`);
+      socket.destroy();
+    }
+  });
+
+  const drop = () => {
+    if (clients.delete(socket)) console.log(`client disconnected (${clients.size} total)`);
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+server.listen(PORT, () => console.log(`link relay listening on ws://0.0.0.0:${PORT}`));
@@ -5,16 +5,153 @@ export enum AppState {
   ZOOMED = 'ZOOMED'
 }
 
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type Handedness = 'Left' | 'Right';
+
 export interface HandGesture {
   isFist: boolean;
   isOpen: boolean;
   isGrabbing: boolean;
+  /** Palm orientation in radians: x = pitch, y = yaw, z = roll (counter-clockwise as seen by the user). */
   rotation: { x: number; y: number; z: number };
   position: { x: number; y: number };
-  rawLandmarks?: any;
+  rawLandmarks?: Landmark[];
+  handedness?: Handedness;
+  /** The second tracked hand, when two hands are visible. */
+  otherHand?: HandGesture;
+}
+
+/** Held hand poses, reported with a start and an end event. */
+export type PoseKind = 'fist' | 'open' | 'pinch' | 'point' | 'peace' | 'thumbsUp';
+
+/** Everything the recognizers emit; swipes are instantaneous (start and end in the same frame). */
+export type GestureKind = PoseKind | 'swipeLeft' | 'swipeRight';
+
+export interface GestureEvent {
+  type: 'start' | 'end';
+  gesture: GestureKind;
+  timestamp: number;
+  handedness?: Handedness;
 }
 
 export interface PhotoData {
   id: string;
+  /** Original upload, used for the zoomed view. */
   url: string;
+  /** Downscaled, orientation-corrected image used as the scene texture. */
+  textureUrl: string;
+  thumbnailUrl: string;
+  /** Width / height of the oriented image. */
+  aspect: number;
+  /** Estimated GPU memory of the full texture. */
+  textureBytes: number;
+  name: string;
+  /** Epoch milliseconds. */
+  addedAt: number;
+  caption: string;
+  albumId: string;
+}
+
+export interface Album {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Hand-placed decorations; absent until the album is first decorated. */
+  layout?: CustomLayout;
+}
+
+export type OrnamentKind = 'bauble' | 'bell' | 'ribbon';
+
+/** An ornament added in decorate mode (photos come from the album itself). */
+export interface Ornament {
+  id: string;
+  kind: OrnamentKind;
+}
+
+/** A decorated tree: which slot each photo or ornament sits in, by id. */
+export interface CustomLayout {
+  slots: Record<string, number>;
+  ornaments: Ornament[];
+}
+
+export interface GestureHandlers {
+  onGesture: (gesture: HandGesture) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+}
+
+export type InputSource = 'camera' | 'pointer' | 'keyboard';
+
+/** `auto` prefers the camera and falls back to the pointer when it is unavailable. */
+export type InputMode = InputSource | 'auto';
+
+export type QualityTier = 'low' | 'medium' | 'high';
+
+/** `auto` lets the quality governor pick a tier from measured frame times. */
+export type QualitySetting = QualityTier | 'auto';
+
+/** `system` follows the `prefers-reduced-motion` media query. */
+export type MotionSetting = 'system' | 'reduced' | 'full';
+
+export interface QualityProfile {
+  /** Device pixel ratio range handed to the Canvas. */
+  dpr: [number, number];
+  particleCount: number;
+  shadows: boolean;
+  bloom: boolean;
+  /** Higher quality but more expensive bloom blur. */
+  bloomMipmapBlur: boolean;
+  noise: boolean;
+  vignette: boolean;
+  /** MediaPipe Hands model: 0 is lite, 1 is full. */
+  modelComplexity: 0 | 1;
+}
+
+export interface CameraSettings {
+  /** Preferred camera; null lets the browser pick the user-facing one. */
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+/** Why hand tracking could not start, each with its own recovery hint. */
+export type TrackingErrorKind = 'permissionDenied' | 'noDevice' | 'deviceBusy' | 'unsupportedSettings' | 'modelLoad' | 'unknown';
+
+/** One ornament color and how often it appears relative to the others. */
+export interface ThemeSwatch {
+  color: string;
+  weight: number;
+}
+
+export interface ThemeLight {
+  color: string;
+  intensity: number;
+}
+
+/** Everything that decides how the scene looks. Colors are `#rrggbb` strings. */
+export interface Theme {
+  id: string;
+  name: string;
+  background: string;
+  palette: ThemeSwatch[];
+  ornaments: { metalness: number; roughness: number; sparkle: number };
+  star: { color: string; emissiveIntensity: number };
+  frame: { color: string; metalness: number; roughness: number; hoverGlow: number };
+  /** Shown on photo planes until their texture loads. */
+  placeholder: string;
+  cursor: string;
+  lights: { ambient: ThemeLight; point: ThemeLight; spot: ThemeLight };
+  postprocessing: {
+    bloomThreshold: number;
+    bloomIntensity: number;
+    bloomRadius: number;
+    noiseOpacity: number;
+    vignetteOffset: number;
+    vignetteDarkness: number;
+  };
 }
@@ -0,0 +1,71 @@
+import { AppState } from '../types';
+import { StateMachine } from './stateMachine';
+
+export interface AppContext {
+  selectedPhotoId: string | null;
+  /** Ids of the photos currently on the tree, in display order. */
+  photoIds: string[];
+}
+
+/** Intent-level events; gestures, UI controls and timers are all translated into these. */
+export type AppEvent =
+  | { type: 'CLOSE_TREE' }
+  | { type: 'SCATTER' }
+  | { type: 'SELECT_PHOTO'; photoId: string }
+  | { type: 'STEP_PHOTO'; offset: number }
+  | { type: 'CLOSE_PHOTO' }
+  | { type: 'PHOTOS_CHANGED'; photoIds: string[] };
+
+const hasPhoto = (context: AppContext, event: { photoId: string }) => context.photoIds.includes(event.photoId);
+
+const select = (_: AppContext, event: { photoId: string }) => ({ selectedPhotoId: event.photoId });
+
+export const createAppMachine = () =>
+  new StateMachine<AppState, AppContext, AppEvent>({
+    initial: AppState.CLOSED,
+    context: { selectedPhotoId: null, photoIds: [] },
+    on: {
+      PHOTOS_CHANGED: { action: (_, event) => ({ photoIds: event.photoIds }) },
+    },
+    states: {
+      [AppState.CLOSED]: {
+        on: {
+          SCATTER: AppState.SCATTERED,
+        },
+      },
+      [AppState.SCATTERED]: {
+        on: {
+          CLOSE_TREE: AppState.CLOSED,
+          SELECT_PHOTO: { target: AppState.ZOOMED, guard: hasPhoto, action: select },
+        },
+      },
+      [AppState.ZOOMED]: {
+        exit: () => ({ selectedPhotoId: null }),
+        on: {
+          CLOSE_TREE: AppState.CLOSED,
+          SCATTER: AppState.SCATTERED,
+          CLOSE_PHOTO: AppState.SCATTERED,
+          SELECT_PHOTO: { guard: hasPhoto, action: select },
+          STEP_PHOTO: {
+            guard: context => context.photoIds.length > 1,
+            action: (context, event) => {
+              const index = context.photoIds.indexOf(context.selectedPhotoId ?? '');
+              const count = context.photoIds.length;
+              return { selectedPhotoId: context.photoIds[(index + event.offset + count) % count] };
+            },
+          },
+          PHOTOS_CHANGED: [
+            // The zoomed photo was removed (or its album switched away)
+            {
+              target: AppState.SCATTERED,
+              guard: (context, event) => !event.photoIds.includes(context.selectedPhotoId ?? ''),
+              action: (_, event) => ({ photoIds: event.photoIds }),
+            },
+            { action: (_, event) => ({ photoIds: event.photoIds }) },
+          ],
+        },
+      },
+    },
+  });
+
+export type AppMachine = ReturnType<typeof createAppMachine>;
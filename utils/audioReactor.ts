@@ -0,0 +1,186 @@
+import { GestureKind } from '../types';
+
+export interface AudioFeatures {
+  /** Smoothed band energies in [0, 1]. */
+  bass: number;
+  mid: number;
+  treble: number;
+  /** Beat envelope: jumps to 1 on a detected beat and decays toward 0. */
+  beat: number;
+}
+
+export type AudioSourceKind = 'file' | 'microphone';
+
+const SILENCE: AudioFeatures = { bass: 0, mid: 0, treble: 0, beat: 0 };
+
+// Band edges in Hz
+const BASS_MAX = 150;
+const MID_MAX = 2000;
+const TREBLE_MAX = 8000;
+// A beat is bass energy this far above its running average...
+const BEAT_THRESHOLD = 1.35;
+// ...at least this long after the previous one
+const MIN_BEAT_INTERVAL = 0.25;
+const BEAT_DECAY = 4;
+
+/** How each gesture cue sounds: a short synthesized envelope, so no assets are needed. */
+const CUES: Partial<Record<GestureKind, { type: OscillatorType; from: number; to: number; duration: number }>> = {
+  fist: { type: 'sine', from: 180, to: 60, duration: 0.25 },
+  open: { type: 'triangle', from: 520, to: 1040, duration: 0.35 },
+  pinch: { type: 'square', from: 1400, to: 1200, duration: 0.06 },
+};
+
+/**
+ * Web Audio analysis for music-reactive mode. Plays a local file (or listens
+ * to the microphone) through an analyser and turns the spectrum into a few
+ * smoothed features the scene reads every frame. Also plays gesture cues.
+ */
+export class AudioReactor {
+  readonly context = new AudioContext();
+  private analyser: AnalyserNode;
+  private musicGain: GainNode;
+  private effectsGain: GainNode;
+  private spectrum: Uint8Array<ArrayBuffer>;
+  private element: HTMLAudioElement | null = null;
+  private elementUrl: string | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private bassAverage = 0;
+  private sinceBeat = Infinity;
+  private lastTime = -1;
+  private current: AudioFeatures = { ...SILENCE };
+
+  constructor() {
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.analyser.smoothingTimeConstant = 0.7;
+    this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+    this.musicGain = this.context.createGain();
+    this.musicGain.connect(this.context.destination);
+    this.effectsGain = this.context.createGain();
+    this.effectsGain.connect(this.context.destination);
+  }
+
+  get features(): AudioFeatures {
+    return this.current;
+  }
+
+  get isPaused() {
+    return this.element?.paused ?? false;
+  }
+
+  /** Pauses or resumes a playing file; the microphone cannot be paused. */
+  async togglePause() {
+    if (!this.element) return;
+    if (this.element.paused) await this.element.play();
+    else this.element.pause();
+  }
+
+  get sourceKind(): AudioSourceKind | null {
+    if (this.stream) return 'microphone';
+    return this.element ? 'file' : null;
+  }
+
+  async playFile(file: File) {
+    this.stopSource();
+    await this.context.resume();
+    this.elementUrl = URL.createObjectURL(file);
+    this.element = new Audio(this.elementUrl);
+    this.element.loop = true;
+    const source = this.context.createMediaElementSource(this.element);
+    source.connect(this.analyser);
+    source.connect(this.musicGain);
+    this.source = source;
+    await this.element.play();
+  }
+
+  /** The microphone is only analysed, never played back, so it cannot feed back. */
+  async listenToMicrophone() {
+    this.stopSource();
+    await this.context.resume();
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const source = this.context.createMediaStreamSource(this.stream);
+    source.connect(this.analyser);
+    this.source = source;
+  }
+
+  stopSource() {
+    this.source?.disconnect();
+    this.source = null;
+    if (this.element) {
+      this.element.pause();
+      this.element = null;
+    }
+    if (this.elementUrl) URL.revokeObjectURL(this.elementUrl);
+    this.elementUrl = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.current = { ...SILENCE };
+  }
+
+  setMusicVolume(volume: number) {
+    this.musicGain.gain.value = volume;
+  }
+
+  setEffectsVolume(volume: number) {
+    this.effectsGain.gain.value = volume;
+  }
+
+  /** Gestures without a cue (swipes) are ignored. */
+  playCue(gesture: GestureKind) {
+    const cue = CUES[gesture];
+    if (!cue) return;
+    if (this.context.state === 'suspended') this.context.resume();
+    const now = this.context.currentTime;
+    const osc = this.context.createOscillator();
+    const envelope = this.context.createGain();
+    osc.type = cue.type;
+    osc.frequency.setValueAtTime(cue.from, now);
+    osc.frequency.exponentialRampToValueAtTime(cue.to, now + cue.duration);
+    envelope.gain.setValueAtTime(0.3, now);
+    envelope.gain.exponentialRampToValueAtTime(0.001, now + cue.duration);
+    osc.connect(envelope).connect(this.effectsGain);
+    osc.start(now);
+    osc.stop(now + cue.duration);
+  }
+
+  /**
+   * Recomputes the features for the frame at `time` (seconds). Several
+   * components call this each frame; only the first call per frame does work.
+   */
+  update(time: number) {
+    if (time === this.lastTime) return this.current;
+    const delta = this.lastTime < 0 ? 0 : Math.min(time - this.lastTime, 0.1);
+    this.lastTime = time;
+    if (!this.source) return this.current;
+
+    this.analyser.getByteFrequencyData(this.spectrum);
+    const binHz = this.context.sampleRate / this.analyser.fftSize;
+    const band = (from: number, to: number) => {
+      const start = Math.max(1, Math.floor(from / binHz));
+      const end = Math.min(this.spectrum.length, Math.ceil(to / binHz));
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += this.spectrum[i];
+      return end > start ? sum / ((end - start) * 255) : 0;
+    };
+    const bass = band(0, BASS_MAX);
+
+    this.sinceBeat += delta;
+    this.bassAverage += (bass - this.bassAverage) * Math.min(delta * 2, 1);
+    const isBeat = bass > this.bassAverage * BEAT_THRESHOLD && bass > 0.2 && this.sinceBeat > MIN_BEAT_INTERVAL;
+    if (isBeat) this.sinceBeat = 0;
+
+    this.current = {
+      bass,
+      mid: band(BASS_MAX, MID_MAX),
+      treble: band(MID_MAX, TREBLE_MAX),
+      beat: isBeat ? 1 : this.current.beat * Math.exp(-BEAT_DECAY * delta),
+    };
+    return this.current;
+  }
+
+  dispose() {
+    this.stopSource();
+    this.context.close();
+  }
+}
@@ -0,0 +1,121 @@
+import { Landmark } from '../types';
+import {
+  DEFAULT_RECOGNIZER_OPTIONS,
+  fingerExtension,
+  fingerExtensions,
+  GestureRecognizerOptions,
+  palmSize,
+  pinchDistance,
+} from './gestureRecognizer';
+
+/** The poses the calibration wizard asks for, in order. */
+export type CalibrationPose = 'open' | 'fist' | 'pinch';
+
+export const CALIBRATION_STEPS: { pose: CalibrationPose; label: string; instruction: string }[] = [
+  { pose: 'open', label: '✋ Open Palm', instruction: 'Hold your hand up with all fingers spread.' },
+  { pose: 'fist', label: '✊ Fist', instruction: 'Close your hand into a relaxed fist.' },
+  { pose: 'pinch', label: '🤏 Pinch', instruction: 'Touch your thumb and index fingertips together.' },
+];
+
+/** The metrics the recognizer thresholds are defined on, for one frame. */
+export interface PoseSample {
+  extension: number;
+  fingers: number[];
+  pinch: number;
+  palm: number;
+}
+
+export type CalibrationSamples = Record<CalibrationPose, PoseSample[]>;
+
+export const samplePose = (landmarks: Landmark[]): PoseSample => ({
+  extension: fingerExtension(landmarks),
+  fingers: fingerExtensions(landmarks),
+  pinch: pinchDistance(landmarks),
+  palm: palmSize(landmarks),
+});
+
+// Palm size (normalized image units) the default swipe distance was tuned for
+const REFERENCE_PALM = 0.15;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : NaN;
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Derives personal thresholds from held poses. Each threshold is placed
+ * between the user's own open and closed readings, so small hands and
+ * stiff fingers get the same margins as the defaults assume. Throws when the
+ * poses are too similar to tell apart.
+ */
+export const deriveRecognizerOptions = (samples: CalibrationSamples): Partial<GestureRecognizerOptions> => {
+  const open = median(samples.open.map(s => s.extension));
+  const closed = median(samples.fist.map(s => s.extension));
+  const pinched = median(samples.pinch.map(s => s.pinch));
+  const apart = median(samples.open.map(s => s.pinch));
+  if (![open, closed, pinched, apart].every(Number.isFinite)) throw new Error('Some poses had no hand in view');
+
+  const gap = open - closed;
+  const pinchGap = apart - pinched;
+  if (gap < 0.15) throw new Error('The open palm and the fist looked too alike; try spreading your fingers wider');
+  if (pinchGap < 0.15) throw new Error('The pinch was not clear enough; press your fingertips together');
+
+  const fingerOpen = median(samples.open.flatMap(s => s.fingers));
+  const fingerClosed = median(samples.fist.flatMap(s => s.fingers));
+  const fingerGap = fingerOpen - fingerClosed;
+  const palm = median([...samples.open, ...samples.fist, ...samples.pinch].map(s => s.palm));
+  // A hand far from the camera travels fewer image pixels for the same swipe
+  const swipeScale = Math.min(Math.max(palm / REFERENCE_PALM, 0.5), 1.5);
+
+  return {
+    fist: { enter: round(closed + gap * 0.3), exit: round(closed + gap * 0.5) },
+    open: { enter: round(open - gap * 0.3), exit: round(open - gap * 0.5) },
+    pinch: { enter: round(pinched + pinchGap * 0.25), exit: round(pinched + pinchGap * 0.45) },
+    finger: { extended: round(fingerClosed + fingerGap * 0.6), curled: round(fingerClosed + fingerGap * 0.4) },
+    swipeDistance: round(DEFAULT_RECOGNIZER_OPTIONS.swipeDistance * swipeScale),
+  };
+};
+
+const CALIBRATION_KEY = 'golden-christmas.calibration';
+
+// The thresholds the wizard derives, and the numbers each one holds
+const CALIBRATED_FIELDS: Partial<Record<keyof GestureRecognizerOptions, string[]>> = {
+  fist: ['enter', 'exit'],
+  open: ['enter', 'exit'],
+  pinch: ['enter', 'exit'],
+  finger: ['extended', 'curled'],
+};
+
+/** Keeps only well-formed thresholds; anything malformed discards the whole calibration. */
+const parseCalibration = (data: unknown): Partial<GestureRecognizerOptions> | null => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const saved = data as Record<string, unknown>;
+  const options: Record<string, unknown> = {};
+  for (const [key, names] of Object.entries(CALIBRATED_FIELDS)) {
+    const value = saved[key] as Record<string, unknown> | undefined;
+    if (value === undefined) continue;
+    if (!value || typeof value !== 'object' || !names.every(name => Number.isFinite(value[name]))) return null;
+    options[key] = Object.fromEntries(names.map(name => [name, value[name]]));
+  }
+  if (saved.swipeDistance !== undefined) {
+    if (!Number.isFinite(saved.swipeDistance)) return null;
+    options.swipeDistance = saved.swipeDistance;
+  }
+  return options as Partial<GestureRecognizerOptions>;
+};
+
+export const loadCalibration = (): Partial<GestureRecognizerOptions> | null => {
+  try {
+    const saved = localStorage.getItem(CALIBRATION_KEY);
+    return saved ? parseCalibration(JSON.parse(saved)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCalibration = (options: Partial<GestureRecognizerOptions> | null) => {
+  if (options) localStorage.setItem(CALIBRATION_KEY, JSON.stringify(options));
+  else localStorage.removeItem(CALIBRATION_KEY);
+};
@@ -0,0 +1,75 @@
+import { CameraSettings, TrackingErrorKind } from '../types';
+
+export const CAMERA_RESOLUTIONS = [
+  { label: '320p', width: 320, height: 240 },
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+];
+
+export const CAMERA_FRAME_RATES = [15, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 320,
+  height: 240,
+  frameRate: 30,
+};
+
+const CAMERA_SETTINGS_KEY = 'golden-christmas.camera';
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const saved = localStorage.getItem(CAMERA_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CAMERA_SETTINGS;
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) =>
+  localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+
+/** Lists video inputs; labels stay empty until camera permission has been granted once. */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+/** Thrown when the MediaPipe script, wasm or model cannot be loaded. */
+export class ModelLoadError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ModelLoadError';
+  }
+}
+
+/** Maps getUserMedia and model failures onto the cases the UI can explain. */
+export const classifyTrackingError = (err: unknown): TrackingErrorKind => {
+  if (err instanceof ModelLoadError) return 'modelLoad';
+  const { name, constraint } = (err ?? {}) as { name?: string; constraint?: string };
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'permissionDenied';
+    case 'NotFoundError':
+      return 'noDevice';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'deviceBusy';
+    case 'OverconstrainedError':
+      // A remembered camera that has since been unplugged
+      return constraint === 'deviceId' ? 'noDevice' : 'unsupportedSettings';
+    default:
+      return 'unknown';
+  }
+};
+
+export const TRACKING_ERROR_MESSAGES: Record<TrackingErrorKind, string> = {
+  permissionDenied: 'Camera access was blocked. Allow it in the browser settings and retry.',
+  noDevice: 'No camera was found.',
+  deviceBusy: 'The camera is in use by another app.',
+  unsupportedSettings: 'This camera does not support the chosen resolution or frame rate.',
+  modelLoad: 'The hand tracking model failed to load.',
+  unknown: 'Failed to start camera or tracking.',
+};
@@ -0,0 +1,69 @@
+export interface CameraLoopOptions {
+  /** Specific camera to open; the user-facing one when omitted. */
+  deviceId?: string | null;
+  width: number;
+  height: number;
+  frameRate?: number;
+  /** Called once per new video frame; the next frame waits for the returned promise. */
+  onFrame: () => Promise<void> | void;
+}
+
+export interface CameraLoop {
+  /** What the browser actually granted, which may differ from the request. */
+  settings: MediaTrackSettings;
+  stop: () => void;
+}
+
+/**
+ * Streams the chosen (or user-facing) camera into `video` and calls `onFrame` for every
+ * new frame. Replaces MediaPipe's camera_utils so nothing is loaded from a CDN.
+ */
+export const startCameraLoop = async (
+  video: HTMLVideoElement,
+  { deviceId, width, height, frameRate, onFrame }: CameraLoopOptions
+): Promise<CameraLoop> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new DOMException('Camera API unavailable', 'NotFoundError');
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: {
+      // An exact device id fails loudly if that camera is gone instead of silently using another
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+      width,
+      height,
+      ...(frameRate ? { frameRate } : {}),
+    },
+    audio: false,
+  });
+  video.srcObject = stream;
+  video.muted = true;
+  video.playsInline = true;
+  try {
+    await video.play();
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    throw err;
+  }
+
+  let running = true;
+  let frameId = 0;
+  let lastTime = -1;
+  const tick = async () => {
+    if (!running) return;
+    // rAF runs faster than most cameras; skip frames the video has not advanced past
+    if (video.currentTime !== lastTime) {
+      lastTime = video.currentTime;
+      await onFrame();
+    }
+    if (running) frameId = requestAnimationFrame(tick);
+  };
+  frameId = requestAnimationFrame(tick);
+
+  return {
+    settings: stream.getVideoTracks()[0]?.getSettings() ?? {},
+    stop: () => {
+      running = false;
+      cancelAnimationFrame(frameId);
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    },
+  };
+};
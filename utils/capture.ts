@@ -0,0 +1,73 @@
+export interface SnapshotOptions {
+  /** Multiple of the current drawing-buffer resolution. */
+  scale: number;
+  /** Hide in-scene UI (the hand cursor) while the snapshot frame renders. */
+  hideUi: boolean;
+}
+
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = { scale: 2, hideUi: true };
+
+export const SNAPSHOT_SCALES = [1, 2, 4];
+
+/** Camera layer for in-scene UI; captures with `hideUi` render without it. */
+export const CAPTURE_UI_LAYER = 1;
+
+export const RECORDING_FPS = 30;
+export const MAX_RECORDING_MS = 60_000;
+
+const RECORDING_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const captureFilename = (extension: string) =>
+  `golden-christmas-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png') =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas capture produced no data'))), type);
+  });
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/**
+ * Records a canvas to WebM. Stops by itself after `maxDurationMs`; `onStop`
+ * receives the finished video either way.
+ */
+export class CanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  get isRecording() {
+    return this.recorder !== null;
+  }
+
+  start(
+    canvas: HTMLCanvasElement,
+    { fps = RECORDING_FPS, maxDurationMs = MAX_RECORDING_MS, onStop }: { fps?: number; maxDurationMs?: number; onStop: (video: Blob) => void }
+  ) {
+    if (this.recorder) return;
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const stream = canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      onStop(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+      this.chunks = [];
+    };
+    // Timesliced so a long recording is not held in one giant buffer by the encoder
+    recorder.start(1000);
+    this.recorder = recorder;
+    this.timeout = setTimeout(() => this.stop(), maxDurationMs);
+  }
+
+  stop() {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop();
+    this.recorder = null;
+  }
+}
@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import { CustomLayout, OrnamentKind } from '../types';
+
+export const ORNAMENT_KINDS: Record<OrnamentKind, { label: string; color: string }> = {
+  bauble: { label: 'Bauble', color: '#D42426' },
+  bell: { label: 'Bell', color: '#FFD700' },
+  ribbon: { label: 'Ribbon', color: '#C41E3A' },
+};
+
+export const EMPTY_LAYOUT: CustomLayout = { slots: {}, ornaments: [] };
+
+// Free slots kept around the items so there is always somewhere to drop
+const MIN_SLOTS = 48;
+const SPARE_SLOTS_PER_ITEM = 1;
+
+/** How many tree slots decorate mode offers for `itemCount` items and the given pinned slots. */
+export const slotCount = (itemCount: number, slots: Record<string, number>) =>
+  Math.max(MIN_SLOTS, itemCount * (1 + SPARE_SLOTS_PER_ITEM), ...Object.values(slots).map(slot => slot + 1));
+
+/**
+ * Gives every item a slot. Pinned items keep theirs; the rest take the
+ * lowest free slots in order, which for an undecorated album is simply slot
+ * `i` for item `i`.
+ */
+export const assignSlots = (itemIds: string[], pinned: Record<string, number>): Map<string, number> => {
+  const assigned = new Map<string, number>();
+  const taken = new Set<number>();
+  itemIds.forEach(id => {
+    const slot = pinned[id];
+    if (slot !== undefined && !taken.has(slot)) {
+      assigned.set(id, slot);
+      taken.add(slot);
+    }
+  });
+  let next = 0;
+  itemIds.forEach(id => {
+    if (assigned.has(id)) return;
+    while (taken.has(next)) next++;
+    assigned.set(id, next);
+    taken.add(next);
+  });
+  return assigned;
+};
+
+const toSlot = new THREE.Vector3();
+
+/**
+ * Projects a (tree-local) ray onto the tree surface: the point on the ray
+ * level with the slot it passes closest to. Only slots on the camera's side
+ * of the trunk count, so dragging never jumps to the back of the tree.
+ */
+export const projectOntoSurface = (ray: THREE.Ray, slots: THREE.Vector3[], out: THREE.Vector3) => {
+  const axisDistance = toSlot.set(0, 0, 0).sub(ray.origin).dot(ray.direction);
+  let best = Infinity;
+  let bestAlong = axisDistance;
+  slots.forEach(slot => {
+    const along = toSlot.copy(slot).sub(ray.origin).dot(ray.direction);
+    if (along > axisDistance) return;
+    const offAxis = ray.distanceSqToPoint(slot);
+    if (offAxis < best) {
+      best = offAxis;
+      bestAlong = along;
+    }
+  });
+  return ray.at(bestAlong, out);
+};
+
+/** The free slot nearest to `point`, or -1 when every slot is taken. */
+export const nearestFreeSlot = (point: THREE.Vector3, slots: THREE.Vector3[], occupied: Set<number>) => {
+  let best = -1;
+  let bestDistance = Infinity;
+  slots.forEach((slot, i) => {
+    if (occupied.has(i)) return;
+    const distance = slot.distanceToSquared(point);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return best;
+};
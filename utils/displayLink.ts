@@ -0,0 +1,169 @@
+import { AppState, CustomLayout, HandGesture, Theme } from '../types';
+import { AppEvent } from './appMachine';
+import { LayoutSelection } from './layouts';
+import { CameraPathKind } from './presentation';
+
+/**
+ * Presenter/controller split: the controller window runs tracking, photo
+ * management and the state machine; display windows only render the scene.
+ * Same-browser windows talk over a BroadcastChannel, and a second device can
+ * join through the WebSocket relay in `scripts/link-relay.mjs`.
+ */
+export type ViewRole = 'standalone' | 'controller' | 'display';
+
+/** Everything a display needs to render what the controller shows. */
+export interface LinkState {
+  appState: AppState;
+  selectedPhotoId: string | null;
+  /** Photos are read from the shared IndexedDB, so only the album and ids travel. */
+  albumId: string | null;
+  photoIds: string[];
+  theme: Theme;
+  layout: LayoutSelection;
+  seed: number;
+  decorations: CustomLayout;
+  isDecorating: boolean;
+  /** Presentation camera move; its start is wall-clock time because `performance.now()` differs per window. */
+  shot: { path: CameraPathKind; seconds: number; startedAtEpochMs: number } | null;
+}
+
+export type LinkMessage =
+  /** Sent by a display when it starts or reconnects; the controller answers with `state`. */
+  | { type: 'hello' }
+  | { type: 'heartbeat' }
+  | { type: 'state'; state: LinkState }
+  | { type: 'gesture'; gesture: HandGesture | null }
+  /** Display to controller: the photo under the hand cursor, for zoom gestures. */
+  | { type: 'hover'; photoId: string | null }
+  /** Display to controller: a decorate-mode drop. */
+  | { type: 'place'; id: string; slot: number }
+  /** Display to controller: gallery buttons and keys on the display window. */
+  | { type: 'event'; event: AppEvent };
+
+export interface LinkEnvelope {
+  /** Unique per message, so copies arriving over both transports are handled once. */
+  id: string;
+  from: ViewRole;
+  message: LinkMessage;
+}
+
+export interface LinkOptions {
+  role: ViewRole;
+  /** e.g. ws://192.168.1.20:8787; BroadcastChannel only when omitted. */
+  relayUrl?: string | null;
+  onMessage: (message: LinkMessage, from: ViewRole) => void;
+  /** Called whenever a transport (re)connects, so each side can resync. */
+  onConnect?: () => void;
+}
+
+export interface Link {
+  send: (message: LinkMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'golden-christmas.link';
+// Either side counts as gone after this long without hearing from it
+export const HEARTBEAT_MS = 2000;
+export const LINK_TIMEOUT_MS = 5000;
+const RELAY_RETRY_MIN_MS = 1000;
+const RELAY_RETRY_MAX_MS = 10000;
+// How many recent message ids are remembered for de-duplication
+const SEEN_LIMIT = 200;
+
+const VIEW_PARAM = 'view';
+const RELAY_PARAM = 'relay';
+
+export const getViewRole = (): ViewRole => {
+  const view = new URLSearchParams(window.location.search).get(VIEW_PARAM);
+  return view === 'controller' || view === 'display' ? view : 'standalone';
+};
+
+export const getRelayUrl = () => new URLSearchParams(window.location.search).get(RELAY_PARAM);
+
+/** URL of this app in another role, keeping the relay setting. */
+export const viewUrl = (role: ViewRole) => {
+  const url = new URL(window.location.href);
+  if (role === 'standalone') url.searchParams.delete(VIEW_PARAM);
+  else url.searchParams.set(VIEW_PARAM, role);
+  return url.toString();
+};
+
+/** Landmarks stay on the controller; the display only needs the pose and position. */
+export const stripGesture = (gesture: HandGesture | null): HandGesture | null => {
+  if (!gesture) return null;
+  const { rawLandmarks, otherHand, ...rest } = gesture;
+  return otherHand ? { ...rest, otherHand: stripGesture(otherHand)! } : rest;
+};
+
+/** Reconnecting WebSocket to the relay; messages sent while it is down are dropped (state resyncs on connect). */
+const openRelay = (url: string, onEnvelope: (envelope: LinkEnvelope) => void, onConnect?: () => void) => {
+  let socket: WebSocket | null = null;
+  let retryMs = RELAY_RETRY_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      retryMs = RELAY_RETRY_MIN_MS;
+      onConnect?.();
+    };
+    socket.onmessage = e => {
+      try {
+        onEnvelope(JSON.parse(e.data));
+      } catch (err) {
+        console.warn('Ignoring malformed relay message', err);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      retryTimer = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, RELAY_RETRY_MAX_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: (envelope: LinkEnvelope) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(envelope));
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
+
+export const openLink = ({ role, relayUrl, onMessage, onConnect }: LinkOptions): Link => {
+  const instance = Math.random().toString(36).slice(2, 8);
+  let sequence = 0;
+  const seen = new Set<string>();
+
+  const onEnvelope = (envelope: LinkEnvelope) => {
+    // A window never listens to its own role
+    if (!envelope?.message || envelope.from === role || seen.has(envelope.id)) return;
+    seen.add(envelope.id);
+    if (seen.size > SEEN_LIMIT) seen.delete(seen.values().next().value!);
+    onMessage(envelope.message, envelope.from);
+  };
+
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+  if (channel) channel.onmessage = e => onEnvelope(e.data);
+  const relay = relayUrl ? openRelay(relayUrl, onEnvelope, onConnect) : null;
+  // The channel is live immediately
+  if (channel) queueMicrotask(() => onConnect?.());
+
+  return {
+    send: message => {
+      const envelope: LinkEnvelope = { id: `${instance}:${sequence++}`, from: role, message };
+      channel?.postMessage(envelope);
+      relay?.send(envelope);
+    },
+    close: () => {
+      channel?.close();
+      relay?.close();
+    },
+  };
+};
@@ -0,0 +1,10 @@
+/** Saves a blob through a temporary link; the browser decides where it lands. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking straight away can cancel large downloads in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
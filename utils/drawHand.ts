@@ -0,0 +1,21 @@
+import { HandGesture } from '../types';
+
+const drawLandmarks = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, gesture: HandGesture) => {
+  if (!gesture.rawLandmarks) return;
+  ctx.fillStyle = gesture.isFist ? '#EF4444' : (gesture.isOpen ? '#10B981' : '#F59E0B');
+  gesture.rawLandmarks.forEach(pt => {
+    ctx.beginPath();
+    ctx.arc(pt.x * canvas.width, pt.y * canvas.height, 3, 0, Math.PI * 2);
+    ctx.fill();
+  });
+};
+
+/** Draws the tracked hands on the small preview canvas, each colored by its recognized pose. */
+export const drawHand = (canvas: HTMLCanvasElement, gesture: HandGesture | null) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (!gesture) return;
+  drawLandmarks(ctx, canvas, gesture);
+  if (gesture.otherHand) drawLandmarks(ctx, canvas, gesture.otherHand);
+};
@@ -0,0 +1,73 @@
+import { GestureKind } from '../types';
+
+/** What a gesture can be bound to. */
+export type GestureAction =
+  | 'none'
+  | 'closeTree'
+  | 'scatter'
+  | 'zoomPhoto'
+  | 'nextPhoto'
+  | 'previousPhoto'
+  | 'capture'
+  | 'toggleMusic';
+
+export type GestureBindings = Record<GestureKind, GestureAction>;
+
+export const ACTION_LABELS: Record<GestureAction, string> = {
+  none: 'Nothing',
+  closeTree: 'Close Tree',
+  scatter: 'Scatter Tree',
+  zoomPhoto: 'Zoom Photo',
+  nextPhoto: 'Next Photo',
+  previousPhoto: 'Previous Photo',
+  capture: 'Snapshot',
+  toggleMusic: 'Play/Pause Music',
+};
+
+export const GESTURE_LABELS: Record<GestureKind, string> = {
+  fist: '✊ Clench Fist',
+  open: '✋ Open Palm',
+  pinch: '🤏 Pinch Index',
+  point: '☝️ Point',
+  peace: '✌️ Peace Sign',
+  thumbsUp: '👍 Thumbs Up',
+  swipeLeft: '👈 Swipe Left',
+  swipeRight: '👉 Swipe Right',
+};
+
+export const DEFAULT_BINDINGS: GestureBindings = {
+  fist: 'closeTree',
+  open: 'scatter',
+  pinch: 'zoomPhoto',
+  point: 'none',
+  peace: 'capture',
+  thumbsUp: 'toggleMusic',
+  swipeLeft: 'nextPhoto',
+  swipeRight: 'previousPhoto',
+};
+
+const BINDINGS_KEY = 'golden-christmas.bindings';
+
+// Own keys only: `in` would also accept 'toString' and the rest of Object.prototype
+const isAction = (value: unknown): value is GestureAction =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ACTION_LABELS, value);
+
+/** Saved bindings over the defaults, so gestures added later get their default action. */
+export const loadBindings = (): GestureBindings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BINDINGS_KEY) ?? '{}');
+    const bindings = { ...DEFAULT_BINDINGS };
+    (Object.keys(bindings) as GestureKind[]).forEach(gesture => {
+      if (isAction(saved[gesture])) bindings[gesture] = saved[gesture];
+    });
+    return bindings;
+  } catch {
+    return { ...DEFAULT_BINDINGS };
+  }
+};
+
+export const saveBindings = (bindings: GestureBindings) => localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+
+/** The first gesture bound to `action`, for prompts like "Open Palm to scatter". */
+export const gestureFor = (bindings: GestureBindings, action: GestureAction): GestureKind | null =>
+  (Object.keys(GESTURE_LABELS) as GestureKind[]).find(gesture => bindings[gesture] === action) ?? null;
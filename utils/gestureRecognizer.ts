@@ -0,0 +1,318 @@
+import { GestureEvent, GestureKind, HandGesture, Handedness, Landmark, PoseKind } from '../types';
+
+/**
+ * One Euro filter (Casiez et al. 2012): an adaptive low-pass filter that
+ * smooths jitter when the hand is still and reduces lag when it moves fast.
+ */
+export class OneEuroFilter {
+  private prevValue: number | null = null;
+  private prevDeriv = 0;
+  private prevTime = 0;
+
+  constructor(
+    private minCutoff = 1.2,
+    private beta = 0.02,
+    private derivCutoff = 1.0
+  ) {}
+
+  private alpha(cutoff: number, dt: number) {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  filter(value: number, timestamp: number): number {
+    if (this.prevValue === null) {
+      this.prevValue = value;
+      this.prevTime = timestamp;
+      return value;
+    }
+    const dt = Math.max((timestamp - this.prevTime) / 1000, 1e-3);
+    const deriv = (value - this.prevValue) / dt;
+    const aD = this.alpha(this.derivCutoff, dt);
+    this.prevDeriv = aD * deriv + (1 - aD) * this.prevDeriv;
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.prevDeriv);
+    const a = this.alpha(cutoff, dt);
+    this.prevValue = a * value + (1 - a) * this.prevValue;
+    this.prevTime = timestamp;
+    return this.prevValue;
+  }
+
+  reset() {
+    this.prevValue = null;
+    this.prevDeriv = 0;
+  }
+}
+
+/** Enter/exit thresholds on a hand-size normalized metric. */
+export interface HysteresisThreshold {
+  enter: number;
+  exit: number;
+}
+
+export interface GestureRecognizerOptions {
+  /** Avg fingertip-to-knuckle distance / palm size; below `enter` is a fist. */
+  fist: HysteresisThreshold;
+  /** Avg fingertip-to-knuckle distance / palm size; above `enter` is an open hand. */
+  open: HysteresisThreshold;
+  /** Thumb-tip to index-tip distance / palm size; below `enter` is a pinch. */
+  pinch: HysteresisThreshold;
+  /**
+   * Per-finger fingertip-to-knuckle distance / palm size, for the finger
+   * poses (point, peace, thumbs up): above `extended` the finger is straight,
+   * below `curled` it is folded.
+   */
+  finger: { extended: number; curled: number };
+  /** Thumb tip height above its knuckle / palm size; above this the thumb points up. */
+  thumbUp: number;
+  /** How long (ms) a pose must be held before it starts. */
+  minHoldMs: number;
+  /** How long (ms) a pose must be absent before it ends. */
+  minReleaseMs: number;
+  /** Horizontal travel (normalized image width) within `swipeWindowMs` that counts as a swipe. */
+  swipeDistance: number;
+  swipeWindowMs: number;
+  /** Minimum time (ms) between two swipes. */
+  swipeCooldownMs: number;
+}
+
+export const DEFAULT_RECOGNIZER_OPTIONS: GestureRecognizerOptions = {
+  fist: { enter: 0.45, exit: 0.6 },
+  open: { enter: 0.8, exit: 0.65 },
+  pinch: { enter: 0.25, exit: 0.4 },
+  finger: { extended: 0.65, curled: 0.55 },
+  thumbUp: 0.5,
+  minHoldMs: 120,
+  minReleaseMs: 80,
+  swipeDistance: 0.25,
+  swipeWindowMs: 300,
+  swipeCooldownMs: 600,
+};
+
+const FINGER_TIPS = [8, 12, 16, 20]; // index, middle, ring, pinky
+const FINGER_BASES = [5, 9, 13, 17];
+
+export const dist = (p1: Landmark, p2: Landmark) => Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+
+/** Wrist to middle knuckle, used to make every metric independent of camera distance. */
+export const palmSize = (lm: Landmark[]) => Math.max(dist(lm[0], lm[9]), 1e-4);
+
+/** Fingertip-to-knuckle distance / palm size for index, middle, ring and pinky. */
+export const fingerExtensions = (lm: Landmark[]) => FINGER_TIPS.map((tip, i) => dist(lm[tip], lm[FINGER_BASES[i]]) / palmSize(lm));
+
+export const fingerExtension = (lm: Landmark[]) =>
+  fingerExtensions(lm).reduce((acc, e) => acc + e, 0) / FINGER_TIPS.length;
+
+/** How far the thumb tip (4) is above its knuckle (2), in palm sizes; negative when below. */
+export const thumbLift = (lm: Landmark[]) => (lm[2].y - lm[4].y) / palmSize(lm);
+
+export const pinchDistance = (lm: Landmark[]) => dist(lm[4], lm[8]) / palmSize(lm);
+
+/**
+ * Palm orientation from the wrist (0), index knuckle (5), middle knuckle (9)
+ * and pinky knuckle (17). Roll is measured in the mirrored view the user sees.
+ */
+export const palmOrientation = (lm: Landmark[]) => {
+  const up = { x: lm[9].x - lm[0].x, y: lm[9].y - lm[0].y, z: lm[9].z - lm[0].z };
+  const across = { x: lm[17].x - lm[5].x, y: lm[17].y - lm[5].y, z: lm[17].z - lm[5].z };
+  return {
+    x: Math.atan2(-up.z, Math.hypot(up.x, up.y)),
+    y: Math.atan2(across.z, Math.hypot(across.x, across.y)),
+    z: Math.atan2(up.x, -up.y),
+  };
+};
+
+interface Track {
+  active: boolean;
+  /** Timestamp at which the raw reading started disagreeing with `active`. */
+  pendingSince: number | null;
+}
+
+/**
+ * Turns a stream of per-frame landmarks into stable gestures. Each pose goes
+ * through hysteresis (separate enter/exit thresholds) and debouncing (minimum
+ * hold/release durations) before it is reported, and transitions are surfaced
+ * as discrete start/end events.
+ */
+export class GestureRecognizer {
+  private options: GestureRecognizerOptions;
+  private filterX = new OneEuroFilter();
+  private filterY = new OneEuroFilter();
+  private tracks: Record<PoseKind, Track> = {
+    fist: { active: false, pendingSince: null },
+    open: { active: false, pendingSince: null },
+    pinch: { active: false, pendingSince: null },
+    point: { active: false, pendingSince: null },
+    peace: { active: false, pendingSince: null },
+    thumbsUp: { active: false, pendingSince: null },
+  };
+  private trail: { x: number; y: number; t: number }[] = [];
+  private lastSwipeAt = -Infinity;
+
+  constructor(options: Partial<GestureRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_RECOGNIZER_OPTIONS, ...options };
+  }
+
+  /** Swaps thresholds (e.g. after calibration) without resetting the current state. */
+  setOptions(options: Partial<GestureRecognizerOptions>) {
+    this.options = { ...DEFAULT_RECOGNIZER_OPTIONS, ...options };
+  }
+
+  /**
+   * Feeds one frame. Pass `null` when no hand is visible so that active
+   * gestures end cleanly. Returns the smoothed gesture (null without a hand)
+   * and any start/end events produced by this frame.
+   */
+  update(landmarks: Landmark[] | null, timestamp: number): { gesture: HandGesture | null; events: GestureEvent[] } {
+    const events: GestureEvent[] = [];
+
+    if (!landmarks) {
+      (Object.keys(this.tracks) as PoseKind[]).forEach(kind => {
+        const track = this.tracks[kind];
+        if (track.active) events.push({ type: 'end', gesture: kind, timestamp });
+        track.active = false;
+        track.pendingSince = null;
+      });
+      this.filterX.reset();
+      this.filterY.reset();
+      this.trail = [];
+      return { gesture: null, events };
+    }
+
+    const extension = fingerExtension(landmarks);
+    const pinch = pinchDistance(landmarks);
+    const { fist, open, pinch: pinchT, finger, thumbUp } = this.options;
+
+    // Finger poses: which fingers are clearly straight and which clearly folded
+    const [index, middle, ring, pinky] = fingerExtensions(landmarks).map(e =>
+      e > finger.extended ? 'extended' : e < finger.curled ? 'curled' : 'between'
+    );
+    const othersCurled = ring === 'curled' && pinky === 'curled';
+    const isPoint = index === 'extended' && middle === 'curled' && othersCurled && pinch > pinchT.exit;
+    const isPeace = index === 'extended' && middle === 'extended' && othersCurled;
+    const isThumbsUp = index === 'curled' && middle === 'curled' && othersCurled && thumbLift(landmarks) > thumbUp;
+    this.step('point', isPoint, timestamp, events);
+    this.step('peace', isPeace, timestamp, events);
+    this.step('thumbsUp', isThumbsUp, timestamp, events);
+
+    // A thumbs up or a pointing hand also has mostly folded fingers; those are not fists
+    const fingerPose = isPoint || isPeace || isThumbsUp;
+    this.step('fist', !fingerPose && (this.tracks.fist.active ? extension < fist.exit : extension < fist.enter), timestamp, events);
+    this.step('open', this.tracks.open.active ? extension > open.exit : extension > open.enter, timestamp, events);
+    this.step('pinch', this.tracks.pinch.active ? pinch < pinchT.exit : pinch < pinchT.enter, timestamp, events);
+
+    // Hand center for positioning
+    const palmBase = landmarks[0];
+    const middleBase = landmarks[9];
+    const x = this.filterX.filter((palmBase.x + middleBase.x) / 2, timestamp);
+    const y = this.filterY.filter((palmBase.y + middleBase.y) / 2, timestamp);
+    this.detectSwipe(x, y, timestamp, events);
+
+    return {
+      gesture: {
+        isFist: this.tracks.fist.active,
+        isOpen: this.tracks.open.active,
+        isGrabbing: this.tracks.pinch.active,
+        position: { x, y },
+        rotation: palmOrientation(landmarks),
+        rawLandmarks: landmarks,
+      },
+      events,
+    };
+  }
+
+  reset() {
+    this.update(null, 0);
+  }
+
+  /**
+   * A swipe is a fast, mostly horizontal movement of a hand that is not
+   * pinching or making a fist. Directions are as the user sees them (the
+   * camera image is mirrored, so image x grows toward the user's left).
+   */
+  private detectSwipe(x: number, y: number, timestamp: number, events: GestureEvent[]) {
+    const { swipeDistance, swipeWindowMs, swipeCooldownMs } = this.options;
+    this.trail.push({ x, y, t: timestamp });
+    while (this.trail.length > 0 && timestamp - this.trail[0].t > swipeWindowMs) this.trail.shift();
+
+    if (this.tracks.pinch.active || this.tracks.fist.active) return;
+    if (timestamp - this.lastSwipeAt < swipeCooldownMs) return;
+
+    const start = this.trail[0];
+    const dx = x - start.x;
+    const dy = y - start.y;
+    if (Math.abs(dx) < swipeDistance || Math.abs(dy) > Math.abs(dx) * 0.5) return;
+
+    const gesture: GestureKind = dx > 0 ? 'swipeLeft' : 'swipeRight';
+    events.push({ type: 'start', gesture, timestamp }, { type: 'end', gesture, timestamp });
+    this.lastSwipeAt = timestamp;
+    this.trail = [];
+  }
+
+  private step(kind: PoseKind, raw: boolean, timestamp: number, events: GestureEvent[]) {
+    const track = this.tracks[kind];
+    if (raw === track.active) {
+      track.pendingSince = null;
+      return;
+    }
+    if (track.pendingSince === null) track.pendingSince = timestamp;
+    const required = track.active ? this.options.minReleaseMs : this.options.minHoldMs;
+    if (timestamp - track.pendingSince >= required) {
+      track.active = raw;
+      track.pendingSince = null;
+      events.push({ type: raw ? 'start' : 'end', gesture: kind, timestamp });
+    }
+  }
+}
+
+export interface TrackedHand {
+  landmarks: Landmark[];
+  handedness: Handedness;
+}
+
+/**
+ * Runs one recognizer per hand. The first hand seen stays primary (its
+ * gesture is the top-level `HandGesture`) until it leaves the frame; the
+ * other hand, if any, is attached as `otherHand`.
+ */
+export class MultiHandRecognizer {
+  private recognizers: Record<Handedness, GestureRecognizer>;
+  private primary: Handedness | null = null;
+
+  constructor(options: Partial<GestureRecognizerOptions> = {}) {
+    this.recognizers = { Left: new GestureRecognizer(options), Right: new GestureRecognizer(options) };
+  }
+
+  setOptions(options: Partial<GestureRecognizerOptions>) {
+    this.recognizers.Left.setOptions(options);
+    this.recognizers.Right.setOptions(options);
+  }
+
+  update(hands: TrackedHand[], timestamp: number): { gesture: HandGesture | null; events: GestureEvent[] } {
+    const byHand: Partial<Record<Handedness, Landmark[]>> = {};
+    hands.slice(0, 2).forEach(hand => {
+      // The classifier occasionally labels both hands the same; keep them apart
+      const label = byHand[hand.handedness] ? (hand.handedness === 'Left' ? 'Right' : 'Left') : hand.handedness;
+      byHand[label] = hand.landmarks;
+    });
+
+    const events: GestureEvent[] = [];
+    const gestures: Partial<Record<Handedness, HandGesture>> = {};
+    (['Left', 'Right'] as Handedness[]).forEach(handedness => {
+      const result = this.recognizers[handedness].update(byHand[handedness] ?? null, timestamp);
+      result.events.forEach(event => events.push({ ...event, handedness }));
+      if (result.gesture) gestures[handedness] = { ...result.gesture, handedness };
+    });
+
+    if (!this.primary || !gestures[this.primary]) {
+      this.primary = gestures.Right ? 'Right' : gestures.Left ? 'Left' : null;
+    }
+    if (!this.primary) return { gesture: null, events };
+
+    const other = gestures[this.primary === 'Right' ? 'Left' : 'Right'];
+    return { gesture: { ...gestures[this.primary]!, otherHand: other }, events };
+  }
+
+  reset() {
+    this.update([], 0);
+  }
+}
@@ -0,0 +1,172 @@
+import { CustomLayout, Ornament, OrnamentKind, PhotoData, Theme } from '../types';
+import { ORNAMENT_KINDS, slotCount } from './decorations';
+import { LayoutKind, LAYOUTS, LayoutSelection } from './layouts';
+import { parseTheme } from './themes';
+import { createZip, readZip, ZipEntry } from './zip';
+
+/**
+ * A greeting bundle is a zip with a `greeting.json` manifest, the photos
+ * (the downscaled textures, not the originals) and optionally a music track.
+ * Opening one rebuilds the same scene in a new album.
+ */
+const BUNDLE_FORMAT = 'golden-christmas-greeting';
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'greeting.json';
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  greeting: string;
+  seed: number;
+  layout: LayoutSelection;
+  theme: Theme;
+  /** Slots keyed by the bundle's photo ids (photos get new ids when opened). */
+  decorations: CustomLayout;
+  photos: { id: string; file: string; name: string; caption: string }[];
+  music: { file: string; name: string } | null;
+}
+
+export interface GreetingContent {
+  greeting: string;
+  seed: number;
+  layout: LayoutSelection;
+  theme: Theme;
+  decorations: CustomLayout;
+  photos: PhotoData[];
+  music: File | null;
+}
+
+/** An opened bundle: photos as files, decorations still keyed by the bundle's photo ids. */
+export interface OpenedGreeting extends Omit<GreetingContent, 'photos'> {
+  photos: { id: string; file: File; caption: string }[];
+}
+
+const extension = (type: string, fallback: string) => type.split('/')[1]?.replace('jpeg', 'jpg') || fallback;
+
+const fetchBytes = async (url: string) => new Uint8Array(await (await fetch(url)).arrayBuffer());
+
+export const buildGreetingBundle = async (content: GreetingContent): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+
+  const photos = await Promise.all(content.photos.map(async (photo, i) => {
+    const blob = await (await fetch(photo.textureUrl)).blob();
+    const file = `photos/${String(i + 1).padStart(3, '0')}.${extension(blob.type, 'jpg')}`;
+    entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    return { id: photo.id, file, name: photo.name, caption: photo.caption };
+  }));
+
+  let music: BundleManifest['music'] = null;
+  if (content.music) {
+    const file = `music/${content.music.name.replace(/[\\/]/g, '_')}`;
+    entries.push({ name: file, data: new Uint8Array(await content.music.arrayBuffer()) });
+    music = { file, name: content.music.name };
+  }
+
+  // Only keep decorations for photos and ornaments that are actually in the bundle
+  const itemIds = new Set([...photos.map(p => p.id), ...content.decorations.ornaments.map(o => o.id)]);
+  const slots = Object.fromEntries(Object.entries(content.decorations.slots).filter(([id]) => itemIds.has(id)));
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    greeting: content.greeting,
+    seed: content.seed,
+    layout: content.layout,
+    theme: content.theme,
+    decorations: { slots, ornaments: content.decorations.ornaments },
+    photos,
+    music,
+  };
+  entries.unshift({ name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+};
+
+// A manifest read from a file: every field has to be checked before use
+type UncheckedManifest = { [K in keyof BundleManifest]?: unknown };
+type Fields = Record<string, unknown>;
+
+const fields = (value: unknown): Fields => (value && typeof value === 'object' && !Array.isArray(value) ? (value as Fields) : {});
+
+const isOrnamentKind = (kind: unknown): kind is OrnamentKind =>
+  typeof kind === 'string' && Object.prototype.hasOwnProperty.call(ORNAMENT_KINDS, kind);
+
+/**
+ * Keeps ornaments of known kinds and slots that are whole numbers within the
+ * tree's slot range; anything else would break the scene or allocate without limit.
+ */
+const checkDecorations = (value: unknown, photoIds: string[]): CustomLayout => {
+  const data = fields(value);
+  const ornaments: Ornament[] = [];
+  const ids = new Set(photoIds);
+  (Array.isArray(data.ornaments) ? data.ornaments : []).forEach((item: unknown) => {
+    const { id, kind } = fields(item);
+    if (typeof id !== 'string' || ids.has(id) || !isOrnamentKind(kind)) return;
+    ids.add(id);
+    ornaments.push({ id, kind });
+  });
+  const maxSlot = slotCount(ids.size, {});
+  const slots = Object.fromEntries(Object.entries(fields(data.slots)).filter(([id, slot]) =>
+    ids.has(id) && Number.isInteger(slot) && (slot as number) >= 0 && (slot as number) < maxSlot
+  )) as Record<string, number>;
+  return { slots, ornaments };
+};
+
+const toFile = (data: Uint8Array, path: string, name = path.split('/').pop() ?? path) =>
+  new File([data], name, { type: MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? '' });
+
+/** Opens and validates a bundle. Throws with a readable message if it is not one. */
+export const openGreetingBundle = async (file: Blob): Promise<OpenedGreeting> => {
+  const files = await readZip(await file.arrayBuffer());
+  const manifestBytes = files.get(MANIFEST_FILE);
+  if (!manifestBytes) throw new Error('Not a greeting bundle');
+  const data: UncheckedManifest = fields(JSON.parse(new TextDecoder().decode(manifestBytes)));
+  if (data.format !== BUNDLE_FORMAT) throw new Error('Not a greeting bundle');
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error('This greeting was made with a newer version of the app');
+  }
+  if (!Array.isArray(data.photos)) throw new Error('Malformed greeting: missing photo list');
+
+  const photos = data.photos.map((item: unknown, i) => {
+    const photo = fields(item);
+    const bytes = typeof photo.file === 'string' ? files.get(photo.file) : undefined;
+    if (typeof photo.id !== 'string' || !bytes) throw new Error(`Malformed greeting: photo ${i + 1} is missing`);
+    const file = photo.file as string;
+    return { id: photo.id, file: toFile(bytes, file, String(photo.name ?? file)), caption: String(photo.caption ?? '') };
+  });
+
+  const music = fields(data.music);
+  const musicBytes = typeof music.file === 'string' ? files.get(music.file) : undefined;
+  const layout = fields(data.layout);
+  const layoutKind = typeof layout.kind === 'string' && layout.kind in LAYOUTS ? (layout.kind as LayoutKind) : 'cone';
+
+  return {
+    greeting: String(data.greeting ?? ''),
+    seed: typeof data.seed === 'number' && Number.isFinite(data.seed) ? data.seed >>> 0 : 0,
+    layout: { kind: layoutKind, source: typeof layout.source === 'string' ? layout.source : undefined },
+    theme: parseTheme(JSON.stringify(data.theme ?? null)),
+    decorations: checkDecorations(data.decorations, photos.map(photo => photo.id)),
+    photos,
+    music: musicBytes ? toFile(musicBytes, music.file as string, String(music.name ?? 'music')) : null,
+  };
+};
+
+/** Re-keys decorations from the bundle's photo ids to the ids the photos got on import. */
+export const remapDecorations = (decorations: CustomLayout, idMap: Map<string, string>): CustomLayout => ({
+  ornaments: decorations.ornaments,
+  slots: Object.fromEntries(Object.entries(decorations.slots).map(([id, slot]) => [idMap.get(id) ?? id, slot])),
+});
+
+export const greetingFilename = () => `christmas-greeting-${new Date().toISOString().slice(0, 10)}.zip`;
@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+
+/**
+ * Maps a normalized hand position (MediaPipe image space, 0..1 with origin
+ * top-left) to normalized device coordinates. The webcam preview is shown
+ * mirrored, so x is flipped to keep the cursor under the user's hand.
+ */
+export const handToNdc = (
+  position: { x: number; y: number },
+  target: THREE.Vector2 = new THREE.Vector2()
+): THREE.Vector2 => {
+  return target.set(1 - position.x * 2, 1 - position.y * 2);
+};
+
+/** True when the NDC point lies inside the visible viewport. */
+export const isOnScreen = (ndc: THREE.Vector2): boolean =>
+  Math.abs(ndc.x) <= 1 && Math.abs(ndc.y) <= 1;
+
+/** Walks up the scene graph to find the photo id a hit object belongs to. */
+export const findPhotoId = (object: THREE.Object3D | null): string | null => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (typeof current.userData.photoId === 'string') return current.userData.photoId;
+    current = current.parent;
+  }
+  return null;
+};
+
+/** Like `findPhotoId`, but also finds ornaments added in decorate mode. */
+export const findItemId = (object: THREE.Object3D | null): string | null => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    const id = current.userData.photoId ?? current.userData.ornamentId;
+    if (typeof id === 'string') return id;
+    current = current.parent;
+  }
+  return null;
+};
+
+/** Distance between two hands in normalized image units. */
+export const handSpan = (a: { position: { x: number; y: number } }, b: { position: { x: number; y: number } }) =>
+  Math.max(Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y), 1e-3);
+
+/** Angle of the line from hand `a` to hand `b` as the user sees it (mirrored, y up). */
+export const handTwist = (a: { position: { x: number; y: number } }, b: { position: { x: number; y: number } }) =>
+  Math.atan2(a.position.y - b.position.y, a.position.x - b.position.x);
+
+/** Wraps an angle difference into [-PI, PI]. */
+export const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
@@ -0,0 +1,76 @@
+import type { Hands, Options } from '@mediapipe/hands';
+import { ModelLoadError } from './cameraDevices';
+// Every file the solution fetches is bundled, so tracking works without a network
+import handsScriptUrl from '@mediapipe/hands/hands.js?url&no-inline';
+import handsGraphUrl from '@mediapipe/hands/hands.binarypb?url&no-inline';
+import landmarkFullUrl from '@mediapipe/hands/hand_landmark_full.tflite?url&no-inline';
+import landmarkLiteUrl from '@mediapipe/hands/hand_landmark_lite.tflite?url&no-inline';
+import packedAssetsUrl from '@mediapipe/hands/hands_solution_packed_assets.data?url&no-inline';
+import packedAssetsLoaderUrl from '@mediapipe/hands/hands_solution_packed_assets_loader.js?url&no-inline';
+import simdWasmUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.wasm?url&no-inline';
+import simdWasmLoaderUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.js?url&no-inline';
+import simdWasmDataUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.data?url&no-inline';
+import wasmUrl from '@mediapipe/hands/hands_solution_wasm_bin.wasm?url&no-inline';
+import wasmLoaderUrl from '@mediapipe/hands/hands_solution_wasm_bin.js?url&no-inline';
+
+export type { Hands, Options as HandsOptions, Results as HandsResults } from '@mediapipe/hands';
+
+const HANDS_ASSETS: Record<string, string> = {
+  'hands.binarypb': handsGraphUrl,
+  'hand_landmark_full.tflite': landmarkFullUrl,
+  'hand_landmark_lite.tflite': landmarkLiteUrl,
+  'hands_solution_packed_assets.data': packedAssetsUrl,
+  'hands_solution_packed_assets_loader.js': packedAssetsLoaderUrl,
+  'hands_solution_simd_wasm_bin.wasm': simdWasmUrl,
+  'hands_solution_simd_wasm_bin.js': simdWasmLoaderUrl,
+  'hands_solution_simd_wasm_bin.data': simdWasmDataUrl,
+  'hands_solution_wasm_bin.wasm': wasmUrl,
+  'hands_solution_wasm_bin.js': wasmLoaderUrl,
+};
+
+declare global {
+  interface Window {
+    Hands?: typeof Hands;
+  }
+}
+
+let scriptPromise: Promise<typeof Hands> | null = null;
+
+// hands.js is a classic script that defines a global rather than an ES module,
+// so it is loaded with a script tag (once) and read back from window
+const loadHandsScript = () => scriptPromise ??= new Promise<typeof Hands>((resolve, reject) => {
+  if (window.Hands) return resolve(window.Hands);
+  const script = document.createElement('script');
+  script.src = handsScriptUrl;
+  script.crossOrigin = 'anonymous';
+  script.onload = () => (window.Hands ? resolve(window.Hands) : reject(new ModelLoadError('MediaPipe Hands did not register')));
+  script.onerror = () => {
+    scriptPromise = null;
+    script.remove();
+    reject(new ModelLoadError('Could not load MediaPipe Hands'));
+  };
+  document.head.appendChild(script);
+});
+
+/**
+ * Creates a MediaPipe Hands instance backed by the locally bundled model and wasm files.
+ * The model is loaded up front so a broken download fails here rather than on the first frame.
+ */
+export const createHands = async (options: Options): Promise<Hands> => {
+  const HandsSolution = await loadHandsScript();
+  const hands = new HandsSolution({
+    locateFile: file => {
+      const url = HANDS_ASSETS[file];
+      if (!url) console.warn(`MediaPipe requested an unbundled file: ${file}`);
+      return url ?? file;
+    },
+  });
+  hands.setOptions(options);
+  try {
+    await hands.initialize();
+  } catch (err) {
+    hands.close();
+    throw new ModelLoadError('Could not initialize the hand tracking model', { cause: err });
+  }
+  return hands;
+};
@@ -0,0 +1,58 @@
+import { IngestedImage, processImage } from './imageProcessing';
+import type { IngestRequest, IngestResponse } from '../workers/imageIngest.worker';
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 0;
+const pending = new Map<number, { resolve: (image: IngestedImage) => void; reject: (err: Error) => void }>();
+
+const getWorker = () => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('../workers/imageIngest.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<IngestResponse>) => {
+      const response = e.data;
+      const request = pending.get(response.id);
+      pending.delete(response.id);
+      if (!request) return;
+      if ('image' in response) request.resolve(response.image);
+      else request.reject(new Error(response.error));
+    };
+    worker.onerror = () => {
+      // Worker could not start (or crashed): finish pending work on the main thread
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pending.forEach(request => request.reject(new Error('Image worker failed')));
+      pending.clear();
+    };
+  } catch {
+    workerFailed = true;
+  }
+  return worker;
+};
+
+const processOffThread = (blob: Blob) => {
+  const w = getWorker();
+  if (!w) return processImage(blob);
+  return new Promise<IngestedImage>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    w.postMessage({ id, blob } satisfies IngestRequest);
+  }).catch(err => {
+    if (workerFailed) return processImage(blob);
+    throw err;
+  });
+};
+
+// Images are ingested one at a time so only one full-size decode is in memory
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Queues an image for orientation, downscaling and thumbnail generation. */
+export const ingestImage = (blob: Blob): Promise<IngestedImage> => {
+  const result = queue.then(() => processOffThread(blob));
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+export type { IngestedImage };
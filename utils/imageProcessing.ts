@@ -0,0 +1,61 @@
+/** Longest edge of the texture uploaded to the GPU. */
+export const MAX_TEXTURE_SIZE = 1024;
+/** Longest edge of the preview thumbnail. */
+export const THUMBNAIL_SIZE = 192;
+
+export interface IngestedImage {
+  texture: Blob;
+  thumbnail: Blob;
+  /** Dimensions of the texture after orientation and downscaling. */
+  width: number;
+  height: number;
+}
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const toBlob = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))), type, quality);
+  });
+};
+
+const fit = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const render = async (bitmap: ImageBitmap, maxSize: number, quality: number) => {
+  const size = fit(bitmap.width, bitmap.height, maxSize);
+  const canvas = createCanvas(size.width, size.height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('2D canvas unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+  // WebP keeps transparency; browsers that cannot encode it fall back to PNG
+  const blob = await toBlob(canvas, 'image/webp', quality);
+  return { blob, ...size };
+};
+
+/**
+ * Decodes an uploaded image with its EXIF orientation applied and produces a
+ * size-capped texture and a thumbnail. Runs in a worker or on the main thread.
+ */
+export const processImage = async (source: Blob): Promise<IngestedImage> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    const texture = await render(bitmap, MAX_TEXTURE_SIZE, 0.9);
+    const thumbnail = await render(bitmap, THUMBNAIL_SIZE, 0.8);
+    return { texture: texture.blob, thumbnail: thumbnail.blob, width: texture.width, height: texture.height };
+  } finally {
+    bitmap.close();
+  }
+};
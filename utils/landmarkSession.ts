@@ -0,0 +1,180 @@
+import { GestureEvent, GestureHandlers, HandGesture, Landmark } from '../types';
+import { MultiHandRecognizer, TrackedHand } from './gestureRecognizer';
+import { downloadBlob } from './download';
+
+// Version 1 recorded only the primary hand; it still loads as a single right hand
+export const SESSION_VERSION = 2;
+// MediaPipe Hands reports this many landmarks per hand
+const LANDMARK_COUNT = 21;
+
+export interface LandmarkFrame {
+  /** Milliseconds since the start of the recording. */
+  t: number;
+  /** Every hand detected in the frame (none, one or two). */
+  hands: TrackedHand[];
+}
+
+export interface LandmarkSession {
+  version: number;
+  createdAt: string;
+  frames: LandmarkFrame[];
+}
+
+// Drops extra fields such as the tracker's confidence score
+const copyHand = ({ handedness, landmarks }: TrackedHand): TrackedHand => ({
+  handedness,
+  landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+});
+
+/** Collects timestamped landmark frames from a live tracker. */
+export class LandmarkRecorder {
+  private frames: LandmarkFrame[] = [];
+  private startedAt: number | null = null;
+
+  get isRecording() {
+    return this.startedAt !== null;
+  }
+
+  start(now = performance.now()) {
+    this.frames = [];
+    this.startedAt = now;
+  }
+
+  push(hands: TrackedHand[], now = performance.now()) {
+    if (this.startedAt === null) return;
+    this.frames.push({ t: Math.round(now - this.startedAt), hands: hands.map(copyHand) });
+  }
+
+  stop(): LandmarkSession {
+    this.startedAt = null;
+    return { version: SESSION_VERSION, createdAt: new Date().toISOString(), frames: this.frames };
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const fields = (value: unknown): Fields | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Fields) : null;
+
+const isLandmark = (value: unknown) => {
+  const point = fields(value);
+  return !!point && Number.isFinite(point.x) && Number.isFinite(point.y) && Number.isFinite(point.z);
+};
+
+const isLandmarks = (landmarks: unknown): landmarks is Landmark[] =>
+  Array.isArray(landmarks) && landmarks.length === LANDMARK_COUNT && landmarks.every(isLandmark);
+
+const isHand = (value: unknown): value is TrackedHand => {
+  const hand = fields(value);
+  return !!hand && (hand.handedness === 'Left' || hand.handedness === 'Right') && isLandmarks(hand.landmarks);
+};
+
+const parseHands = (frame: Fields, version: number): TrackedHand[] | null => {
+  if (version === 1) {
+    if (frame.landmarks === null) return [];
+    return isLandmarks(frame.landmarks) ? [{ handedness: 'Right', landmarks: frame.landmarks }] : null;
+  }
+  const { hands } = frame;
+  return Array.isArray(hands) && hands.length <= 2 && hands.every(isHand) ? hands : null;
+};
+
+/** Parses and validates a session file; throws on malformed input. */
+export const parseSession = (json: string): LandmarkSession => {
+  const data = fields(JSON.parse(json));
+  const version = data?.version;
+  if (!data || (version !== 1 && version !== SESSION_VERSION) || !Array.isArray(data.frames)) {
+    throw new Error('Not a hand-landmark session file');
+  }
+  const frames: LandmarkFrame[] = data.frames.map((value: unknown, i) => {
+    const frame = fields(value);
+    const hands = frame && Number.isFinite(frame.t) ? parseHands(frame, version) : null;
+    if (!hands) throw new Error(`Malformed frame at index ${i}`);
+    return { t: frame.t as number, hands: hands.map(copyHand) };
+  });
+  return { version: SESSION_VERSION, createdAt: String(data.createdAt ?? ''), frames };
+};
+
+export const downloadSession = (session: LandmarkSession, filename = `hand-session-${Date.now()}.json`) => {
+  downloadBlob(new Blob([JSON.stringify(session)], { type: 'application/json' }), filename);
+};
+
+/** Playback position; handing the same cursor to `playSession` again resumes where it stopped. */
+export interface SessionCursor {
+  index: number;
+  recognizer: MultiHandRecognizer;
+}
+
+export const createSessionCursor = (): SessionCursor => ({ index: 0, recognizer: new MultiHandRecognizer() });
+
+/**
+ * Replays a session through the cursor's recognizer on a timer. `speed` scales the
+ * wall-clock delay between frames; the recognizer still sees the recorded
+ * timestamps, so debouncing behaves exactly as it did live.
+ * Returns a function that stops playback.
+ */
+export const playSession = (
+  session: LandmarkSession,
+  handlers: GestureHandlers,
+  {
+    speed = 1,
+    loop = false,
+    onEnd,
+    cursor = createSessionCursor(),
+  }: { speed?: number; loop?: boolean; onEnd?: () => void; cursor?: SessionCursor } = {}
+): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const rewind = () => {
+    cursor.index = 0;
+    cursor.recognizer = new MultiHandRecognizer();
+  };
+
+  const tick = () => {
+    const frame = session.frames[cursor.index];
+    const { gesture, events } = cursor.recognizer.update(frame.hands, frame.t);
+    events.forEach(event => handlers.onGestureEvent?.(event));
+    if (gesture) handlers.onGesture(gesture);
+
+    cursor.index++;
+    if (cursor.index >= session.frames.length) {
+      // Either way the next play starts over
+      rewind();
+      if (!loop) {
+        timer = null;
+        onEnd?.();
+        return;
+      }
+    }
+    const delay = cursor.index === 0 ? 0 : (session.frames[cursor.index].t - frame.t) / speed;
+    timer = setTimeout(tick, Math.max(delay, 0));
+  };
+
+  if (cursor.index >= session.frames.length) rewind();
+  if (session.frames.length > 0) timer = setTimeout(tick, 0);
+  return () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+};
+
+/**
+ * Runs a session synchronously and collects everything it produces.
+ * Useful for scripted checks of gesture-driven state transitions.
+ */
+export const runSession = (session: LandmarkSession, handlers?: GestureHandlers) => {
+  const recognizer = new MultiHandRecognizer();
+  const gestures: HandGesture[] = [];
+  const events: GestureEvent[] = [];
+  session.frames.forEach(frame => {
+    const result = recognizer.update(frame.hands, frame.t);
+    result.events.forEach(event => {
+      events.push(event);
+      handlers?.onGestureEvent?.(event);
+    });
+    if (result.gesture) {
+      gestures.push(result.gesture);
+      handlers?.onGesture(result.gesture);
+    }
+  });
+  return { gestures, events };
+};
@@ -0,0 +1,193 @@
+import * as THREE from 'three';
+import { pickEvenly, sampleMask, sampleSvg, sampleText, SilhouettePoint } from './shapeSampling';
+import { Random } from './random';
+
+export type LayoutKind = 'cone' | 'tiers' | 'helix' | 'star' | 'heart' | 'text' | 'svg';
+
+/** The layout chosen in the UI. */
+export interface LayoutSelection {
+  kind: LayoutKind;
+  source?: string;
+}
+
+export interface LayoutParams {
+  /** Number of ornament particles. */
+  count: number;
+  height: number;
+  baseRadius: number;
+  /** Text or SVG markup for the sampled layouts. */
+  source?: string;
+}
+
+export interface TreeLayout {
+  particles: THREE.Vector3[];
+  /** Position of photo slot `index` on the layout's surface. */
+  photoSlot: (index: number) => THREE.Vector3;
+  /** Where the top star sits. */
+  starPosition: THREE.Vector3;
+}
+
+interface LayoutGenerator {
+  label: string;
+  /** Whether the layout is built from `LayoutParams.source`. */
+  needsSource?: boolean;
+  particles: (params: LayoutParams) => THREE.Vector3[];
+  /** Slot `index` must not depend on how many photos there are, so adding one never moves the others. */
+  photoSlot: (params: LayoutParams, index: number) => THREE.Vector3;
+}
+
+export const DEFAULT_LAYOUT_PARAMS: LayoutParams = { count: 350, height: 10, baseRadius: 4 };
+
+// Photos sit slightly outside the ornament surface so they are not buried in it
+const PHOTO_OFFSET = 0.4;
+
+/** Deterministic value in [-0.5, 0.5) for index `i`, used for depth jitter. */
+const jitter = (i: number) => ((i * 0.618034) % 1) - 0.5;
+
+/** Low-discrepancy position in [0, 1) for slot `i`: successive slots fill the gaps between earlier ones. */
+const slotFraction = (i: number) => (0.5 + i * 0.618034) % 1;
+
+/**
+ * Element `i` of the Halton sequence in `base`, in [0, 1). Two coprime bases
+ * give independent low-discrepancy coordinates that cover a surface evenly.
+ */
+const halton = (i: number, base: number) => {
+  let result = 0;
+  let fraction = 1;
+  for (let n = i + 1; n > 0; n = Math.floor(n / base)) {
+    fraction /= base;
+    result += fraction * (n % base);
+  }
+  return result;
+};
+
+// Cone surface: t in [0, 1] from base to tip
+const conePoint = ({ height, baseRadius }: LayoutParams, t: number, angle: number, offset = 0) => {
+  const radius = (1 - t) * baseRadius + offset;
+  return new THREE.Vector3(Math.cos(angle) * radius, t * height - height / 2, Math.sin(angle) * radius);
+};
+
+// Stacked frustums, each tier wider at its bottom than the top of the tier below
+const TIERS = 4;
+const tierPoint = ({ height, baseRadius }: LayoutParams, t: number, angle: number, offset = 0) => {
+  const tier = Math.min(Math.floor(t * TIERS), TIERS - 1);
+  const local = t * TIERS - tier;
+  const tierBase = baseRadius * (1 - tier / (TIERS + 1));
+  const radius = tierBase * (1 - local * 0.65) + offset;
+  return new THREE.Vector3(Math.cos(angle) * radius, t * height - height / 2, Math.sin(angle) * radius);
+};
+
+// Tapering ribbon wound around the trunk axis
+const HELIX_TURNS = 5;
+const HELIX_WIDTH = 0.8;
+const helixPoint = ({ height, baseRadius }: LayoutParams, t: number, across: number, offset = 0) => {
+  const angle = t * HELIX_TURNS * Math.PI * 2;
+  const radius = (1 - t) * baseRadius + 0.3 + offset;
+  return new THREE.Vector3(
+    Math.cos(angle) * radius,
+    t * height - height / 2 + across * HELIX_WIDTH,
+    Math.sin(angle) * radius
+  );
+};
+
+const surfaceGenerator = (
+  label: string,
+  point: (params: LayoutParams, t: number, angle: number, offset?: number) => THREE.Vector3,
+  angleStep = 0.4
+): LayoutGenerator => ({
+  label,
+  particles: params => Array.from({ length: params.count }, (_, i) => point(params, i / params.count, i * angleStep)),
+  // Height and angle come from separate sequences so slots spread over the surface, not along one spiral.
+  // Photos stay off the very bottom and the narrow tip
+  photoSlot: (params, i) => point(params, 0.08 + halton(i, 2) * 0.75, halton(i, 3) * Math.PI * 2, PHOTO_OFFSET),
+});
+
+const starMask = () => sampleMask((ctx, size) => {
+  const c = size / 2;
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const r = (i % 2 === 0 ? 0.48 : 0.2) * size;
+    const a = -Math.PI / 2 + (i * Math.PI) / 5;
+    ctx.lineTo(c + Math.cos(a) * r, c + Math.sin(a) * r);
+  }
+  ctx.closePath();
+  ctx.fill();
+});
+
+const heartMask = () => sampleMask((ctx, size) => {
+  ctx.beginPath();
+  for (let i = 0; i <= 100; i++) {
+    const a = (i / 100) * Math.PI * 2;
+    const x = 16 * Math.sin(a) ** 3;
+    const y = 13 * Math.cos(a) - 5 * Math.cos(2 * a) - 2 * Math.cos(3 * a) - Math.cos(4 * a);
+    ctx.lineTo(size / 2 + (x / 36) * size, size * 0.45 - (y / 36) * size);
+  }
+  ctx.closePath();
+  ctx.fill();
+});
+
+// Silhouettes are rasterized once per source and reused for particles and slots
+const maskCache = new Map<string, SilhouettePoint[]>();
+const cachedMask = (key: string, build: () => SilhouettePoint[]) => {
+  if (!maskCache.has(key)) maskCache.set(key, build());
+  return maskCache.get(key)!;
+};
+
+const silhouetteGenerator = (
+  label: string,
+  mask: (source: string) => SilhouettePoint[],
+  needsSource = false
+): LayoutGenerator => {
+  const place = ({ height }: LayoutParams, [x, y]: SilhouettePoint, z: number) =>
+    new THREE.Vector3(x * height, y * height, z);
+  const points = (params: LayoutParams) => cachedMask(`${label}:${params.source ?? ''}`, () => mask(params.source ?? ''));
+
+  return {
+    label,
+    needsSource,
+    particles: params =>
+      pickEvenly(points(params), params.count).map((p, i) => place(params, p, jitter(i) * params.baseRadius * 0.3)),
+    photoSlot: (params, i) => {
+      const list = points(params);
+      const p = list[Math.floor(slotFraction(i) * list.length)];
+      return place(params, p, params.baseRadius * 0.15 + PHOTO_OFFSET);
+    },
+  };
+};
+
+export const LAYOUTS: Record<LayoutKind, LayoutGenerator> = {
+  cone: surfaceGenerator('Classic Cone', conePoint),
+  tiers: surfaceGenerator('Layered Tiers', tierPoint),
+  helix: {
+    label: 'Helix Ribbon',
+    particles: params => Array.from({ length: params.count }, (_, i) => helixPoint(params, i / params.count, jitter(i))),
+    photoSlot: (params, i) => helixPoint(params, 0.05 + slotFraction(i) * 0.8, 0, PHOTO_OFFSET),
+  },
+  star: silhouetteGenerator('Star', starMask),
+  heart: silhouetteGenerator('Heart', heartMask),
+  text: silhouetteGenerator('Text', sampleText, true),
+  svg: silhouetteGenerator('SVG Shape', sampleSvg, true),
+};
+
+/** Builds particle targets, photo slots and the star position from one parameter set. */
+export const generateLayout = (kind: LayoutKind, params: LayoutParams): TreeLayout => {
+  const generator = LAYOUTS[kind];
+  const particles = generator.needsSource && !params.source?.trim() ? [] : generator.particles(params);
+  // Fall back to the classic tree when a sampled source produced nothing
+  if (particles.length === 0) return generateLayout('cone', params);
+
+  const topY = particles.reduce((max, p) => Math.max(max, p.y), -Infinity);
+  return {
+    particles,
+    photoSlot: index => generator.photoSlot(params, index),
+    starPosition: new THREE.Vector3(0, topY + 0.5, 0),
+  };
+};
+
+/** Uniform random positions in a cube of side `spread`, drawn from a seeded stream. */
+export const generateScatter = (count: number, spread: number, random: Random): THREE.Vector3[] =>
+  Array.from({ length: count }, () => new THREE.Vector3(
+    (random() - 0.5) * spread,
+    (random() - 0.5) * spread,
+    (random() - 0.5) * spread
+  ));
@@ -0,0 +1,168 @@
+import { Album, CustomLayout, PhotoData } from '../types';
+import { IngestedImage } from './imageProcessing';
+
+const DB_NAME = 'golden-christmas';
+const DB_VERSION = 1;
+const PHOTOS = 'photos';
+const ALBUMS = 'albums';
+const ACTIVE_ALBUM_KEY = 'golden-christmas.activeAlbum';
+
+/** A photo as persisted: metadata, the original image blob and its ingested derivatives. */
+export interface StoredPhoto extends Omit<PhotoData, 'url' | 'textureUrl' | 'thumbnailUrl' | 'aspect' | 'textureBytes'> {
+  blob: Blob;
+  order: number;
+  /** Missing on photos stored before ingestion existed; filled in on load. */
+  texture?: Blob;
+  thumbnail?: Blob;
+  width?: number;
+  height?: number;
+}
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const photos = db.createObjectStore(PHOTOS, { keyPath: 'id' });
+        photos.createIndex('albumId', 'albumId');
+        db.createObjectStore(ALBUMS, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const createId = () => Math.random().toString(36).substr(2, 9);
+
+export const listAlbums = async (): Promise<Album[]> => {
+  const db = await openDb();
+  const albums = await request<Album[]>(db.transaction(ALBUMS).objectStore(ALBUMS).getAll());
+  return albums.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createAlbum = async (name: string): Promise<Album> => {
+  const db = await openDb();
+  const album: Album = { id: createId(), name, createdAt: Date.now() };
+  const tx = db.transaction(ALBUMS, 'readwrite');
+  tx.objectStore(ALBUMS).put(album);
+  await done(tx);
+  return album;
+};
+
+export const renameAlbum = async (id: string, name: string) => {
+  const db = await openDb();
+  const tx = db.transaction(ALBUMS, 'readwrite');
+  const store = tx.objectStore(ALBUMS);
+  const album = await request<Album | undefined>(store.get(id));
+  if (album) store.put({ ...album, name });
+  await done(tx);
+};
+
+export const saveAlbumLayout = async (id: string, layout: CustomLayout) => {
+  const db = await openDb();
+  const tx = db.transaction(ALBUMS, 'readwrite');
+  const store = tx.objectStore(ALBUMS);
+  const album = await request<Album | undefined>(store.get(id));
+  if (album) store.put({ ...album, layout });
+  await done(tx);
+};
+
+/** Deletes an album together with all of its photos. */
+export const deleteAlbum = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([ALBUMS, PHOTOS], 'readwrite');
+  tx.objectStore(ALBUMS).delete(id);
+  const photos = tx.objectStore(PHOTOS);
+  const keys = await request(photos.index('albumId').getAllKeys(id));
+  keys.forEach(key => photos.delete(key));
+  await done(tx);
+};
+
+export const listPhotos = async (albumId: string): Promise<StoredPhoto[]> => {
+  const db = await openDb();
+  const index = db.transaction(PHOTOS).objectStore(PHOTOS).index('albumId');
+  const photos = await request<StoredPhoto[]>(index.getAll(albumId));
+  return photos.sort((a, b) => a.order - b.order);
+};
+
+/** Builds a new, not yet persisted photo record from an upload. */
+export const createStoredPhoto = (albumId: string, file: File, image: IngestedImage, order = 0, caption = ''): StoredPhoto => ({
+  id: createId(),
+  albumId,
+  name: file.name,
+  caption,
+  addedAt: Date.now(),
+  order,
+  blob: file,
+  ...image,
+});
+
+/** Appends ingested uploads to the end of an album. */
+export const addPhotos = async (
+  albumId: string,
+  uploads: { file: File; image: IngestedImage; caption?: string }[]
+): Promise<StoredPhoto[]> => {
+  const existing = await listPhotos(albumId);
+  let order = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0;
+  const added = uploads.map(({ file, image, caption }) => createStoredPhoto(albumId, file, image, order++, caption));
+
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  const store = tx.objectStore(PHOTOS);
+  added.forEach(photo => store.put(photo));
+  await done(tx);
+  return added;
+};
+
+export const updatePhoto = async (id: string, changes: Partial<Omit<StoredPhoto, 'id' | 'blob'>>) => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  const store = tx.objectStore(PHOTOS);
+  const photo = await request<StoredPhoto | undefined>(store.get(id));
+  if (photo) store.put({ ...photo, ...changes });
+  await done(tx);
+};
+
+export const deletePhoto = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  tx.objectStore(PHOTOS).delete(id);
+  await done(tx);
+};
+
+/** Persists a new order for the given photo ids. */
+export const reorderPhotos = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  const store = tx.objectStore(PHOTOS);
+  const photos = await Promise.all(ids.map(id => request<StoredPhoto | undefined>(store.get(id))));
+  photos.forEach((photo, order) => {
+    if (photo) store.put({ ...photo, order });
+  });
+  await done(tx);
+};
+
+export const getActiveAlbumId = () => localStorage.getItem(ACTIVE_ALBUM_KEY);
+
+export const setActiveAlbumId = (id: string) => localStorage.setItem(ACTIVE_ALBUM_KEY, id);
@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+import { AppEvent } from './appMachine';
+
+export type CameraPathKind = 'orbit' | 'dollyToStar' | 'flyThrough';
+
+/** A camera pose at a point in a path's timeline; `time` runs from 0 to 1. */
+export interface CameraKeyframe {
+  time: number;
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+export interface CameraPath {
+  /** Keyframes are relative to the scene origin or to the tree's star. */
+  anchor: 'origin' | 'star';
+  keyframes: CameraKeyframe[];
+}
+
+const orbitKeyframes = (radius: number, height: number, turns: number, steps: number): CameraKeyframe[] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (i / steps) * turns * Math.PI * 2;
+    return {
+      time: i / steps,
+      position: [Math.sin(angle) * radius, height + Math.sin(angle * 2) * 1.5, Math.cos(angle) * radius],
+      target: [0, 0, 0],
+    };
+  });
+
+export const CAMERA_PATHS: Record<CameraPathKind, CameraPath> = {
+  // A slow full turn around the tree, bobbing a little in height
+  orbit: { anchor: 'origin', keyframes: orbitKeyframes(16, 4, 1, 12) },
+  // From a wide shot in to the star, ending just below it looking up
+  dollyToStar: {
+    anchor: 'star',
+    keyframes: [
+      { time: 0, position: [0, -2, 18], target: [0, -6, 0] },
+      { time: 0.6, position: [3, -1, 8], target: [0, -1, 0] },
+      { time: 1, position: [1.5, -1.5, 4], target: [0, 0, 0] },
+    ],
+  },
+  // Through the middle of the scattered cloud and back out the other side
+  flyThrough: {
+    anchor: 'origin',
+    keyframes: [
+      { time: 0, position: [0, 6, 26], target: [0, 0, 0] },
+      { time: 0.3, position: [4, 2, 8], target: [-2, 0, -10] },
+      { time: 0.55, position: [-3, -1, -4], target: [-6, 2, -20] },
+      { time: 0.8, position: [-12, 3, -14], target: [0, 0, 0] },
+      { time: 1, position: [-20, 6, 4], target: [0, 0, 0] },
+    ],
+  },
+};
+
+const curves = new Map<CameraPathKind, { position: THREE.CatmullRomCurve3; target: THREE.CatmullRomCurve3 }>();
+
+const curvesFor = (kind: CameraPathKind) => {
+  let pair = curves.get(kind);
+  if (!pair) {
+    const { keyframes } = CAMERA_PATHS[kind];
+    pair = {
+      position: new THREE.CatmullRomCurve3(keyframes.map(k => new THREE.Vector3(...k.position))),
+      target: new THREE.CatmullRomCurve3(keyframes.map(k => new THREE.Vector3(...k.target))),
+    };
+    curves.set(kind, pair);
+  }
+  return pair;
+};
+
+/**
+ * Samples a path at `t` (0 to 1, clamped). Keyframe times are honoured by
+ * remapping `t` onto the curve's evenly spaced control points.
+ */
+export const sampleCameraPath = (
+  kind: CameraPathKind,
+  t: number,
+  starPosition: THREE.Vector3,
+  position: THREE.Vector3,
+  target: THREE.Vector3
+) => {
+  const { keyframes, anchor } = CAMERA_PATHS[kind];
+  const clamped = THREE.MathUtils.clamp(t, 0, 1);
+  const next = Math.max(keyframes.findIndex(k => k.time >= clamped), 1);
+  const prev = keyframes[next - 1];
+  const span = keyframes[next].time - prev.time;
+  const u = (next - 1 + (span > 0 ? (clamped - prev.time) / span : 0)) / (keyframes.length - 1);
+
+  const { position: positionCurve, target: targetCurve } = curvesFor(kind);
+  positionCurve.getPoint(u, position);
+  targetCurve.getPoint(u, target);
+  if (anchor === 'star') {
+    position.add(starPosition);
+    target.add(starPosition);
+  }
+};
+
+export interface PresentationSettings {
+  /** Seconds spent on each part of the loop. */
+  treeSeconds: number;
+  cloudSeconds: number;
+  photoSeconds: number;
+  /** Seconds without hand input before autoplay takes the scene back. */
+  resumeAfterSeconds: number;
+}
+
+export const DEFAULT_PRESENTATION_SETTINGS: PresentationSettings = {
+  treeSeconds: 12,
+  cloudSeconds: 10,
+  photoSeconds: 5,
+  resumeAfterSeconds: 15,
+};
+
+/** One beat of the presentation: what the state machine is told and how the camera moves. */
+export interface PresentationStep {
+  event: AppEvent;
+  path: CameraPathKind | null;
+  seconds: number;
+}
+
+/** Tree orbit, dolly to the star, fly through the scattered cloud, then every photo in turn. */
+export const buildTimeline = (photoIds: string[], settings: PresentationSettings): PresentationStep[] => [
+  { event: { type: 'CLOSE_TREE' }, path: 'orbit', seconds: settings.treeSeconds },
+  { event: { type: 'CLOSE_TREE' }, path: 'dollyToStar', seconds: settings.treeSeconds / 2 },
+  { event: { type: 'SCATTER' }, path: 'flyThrough', seconds: settings.cloudSeconds },
+  ...photoIds.map((photoId): PresentationStep => ({
+    event: { type: 'SELECT_PHOTO', photoId },
+    path: null,
+    seconds: settings.photoSeconds,
+  })),
+];
+
+const SETTINGS_KEY = 'golden-christmas.presentation';
+
+export const loadPresentationSettings = (): PresentationSettings => {
+  try {
+    return { ...DEFAULT_PRESENTATION_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return { ...DEFAULT_PRESENTATION_SETTINGS };
+  }
+};
+
+export const savePresentationSettings = (settings: PresentationSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
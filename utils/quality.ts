@@ -0,0 +1,145 @@
+import { QualityProfile, QualitySetting, QualityTier } from '../types';
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high'];
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  low: {
+    dpr: [0.75, 1],
+    particleCount: 350,
+    shadows: false,
+    bloom: true,
+    bloomMipmapBlur: false,
+    noise: false,
+    vignette: false,
+    modelComplexity: 0,
+  },
+  medium: {
+    dpr: [1, 1.5],
+    particleCount: 2500,
+    shadows: false,
+    bloom: true,
+    bloomMipmapBlur: true,
+    noise: false,
+    vignette: true,
+    modelComplexity: 1,
+  },
+  high: {
+    dpr: [1, 2],
+    particleCount: 10000,
+    shadows: true,
+    bloom: true,
+    bloomMipmapBlur: true,
+    noise: true,
+    vignette: true,
+    modelComplexity: 1,
+  },
+};
+
+const QUALITY_SETTING_KEY = 'golden-christmas.quality';
+
+export const loadQualitySetting = (): QualitySetting => {
+  const saved = localStorage.getItem(QUALITY_SETTING_KEY);
+  return saved === 'auto' || QUALITY_TIERS.includes(saved as QualityTier) ? (saved as QualitySetting) : 'auto';
+};
+
+export const saveQualitySetting = (setting: QualitySetting) => localStorage.setItem(QUALITY_SETTING_KEY, setting);
+
+export interface FrameStats {
+  fps: number;
+  /** Smoothed frame time in milliseconds. */
+  frameMs: number;
+}
+
+export interface GovernorOptions {
+  /** Step down when the smoothed rate stays below this... */
+  downFps: number;
+  /** ...for this many seconds. */
+  downAfter: number;
+  /** Step up when the smoothed rate stays above this... */
+  upFps: number;
+  /** ...for this many seconds. */
+  upAfter: number;
+  /** Cap on the up wait, which doubles every time a step up has to be taken back. */
+  maxUpAfter: number;
+  /** Seconds to ignore measurements after a change (shader compiles cause hitches). */
+  cooldown: number;
+}
+
+export const DEFAULT_GOVERNOR_OPTIONS: GovernorOptions = {
+  downFps: 40,
+  downAfter: 2,
+  upFps: 57,
+  upAfter: 10,
+  maxUpAfter: 300,
+  cooldown: 4,
+};
+
+/**
+ * Watches frame times and proposes tier changes. Stepping down is quick and
+ * stepping up is slow. A step up that has to be taken back doubles the wait
+ * before the next attempt, so a machine that cannot hold the higher tier
+ * retries it ever more rarely instead of flipping between the two.
+ */
+export class QualityGovernor {
+  private options: GovernorOptions;
+  private frameMs = 1000 / 60;
+  private belowFor = 0;
+  private aboveFor = 0;
+  private cooldown = 0;
+  private upAfter: number;
+  private lastStep: -1 | 0 | 1 = 0;
+
+  constructor(options: Partial<GovernorOptions> = {}) {
+    this.options = { ...DEFAULT_GOVERNOR_OPTIONS, ...options };
+    this.cooldown = this.options.cooldown;
+    this.upAfter = this.options.upAfter;
+  }
+
+  get stats(): FrameStats {
+    return { fps: 1000 / this.frameMs, frameMs: this.frameMs };
+  }
+
+  /**
+   * Feeds one frame's delta (seconds); returns -1 to step down, 1 to step up, 0 to stay.
+   * With `canStep` off only the stats are updated.
+   */
+  update(delta: number, canStep = true): -1 | 0 | 1 {
+    // Ignore huge gaps (tab in background, debugger pauses)
+    if (delta <= 0 || delta > 0.5) return 0;
+    this.frameMs += (delta * 1000 - this.frameMs) * Math.min(delta * 2, 1);
+
+    if (!canStep) return 0;
+    if (this.cooldown > 0) {
+      this.cooldown -= delta;
+      return 0;
+    }
+
+    const { fps } = this.stats;
+    this.belowFor = fps < this.options.downFps ? this.belowFor + delta : 0;
+    this.aboveFor = fps > this.options.upFps ? this.aboveFor + delta : 0;
+
+    if (this.belowFor >= this.options.downAfter) return this.changed(-1);
+    if (this.aboveFor >= this.upAfter) return this.changed(1);
+    return 0;
+  }
+
+  /** Call when the tier was changed from outside so the new tier gets a fair measurement. */
+  reset() {
+    this.belowFor = 0;
+    this.aboveFor = 0;
+    this.cooldown = this.options.cooldown;
+  }
+
+  private changed(step: -1 | 1) {
+    // Stepping down right after stepping up: the higher tier does not hold here
+    if (step === -1 && this.lastStep === 1) this.upAfter = Math.min(this.upAfter * 2, this.options.maxUpAfter);
+    this.lastStep = step;
+    this.reset();
+    return step;
+  }
+}
+
+export const stepTier = (tier: QualityTier, step: -1 | 0 | 1): QualityTier => {
+  const index = Math.min(Math.max(QUALITY_TIERS.indexOf(tier) + step, 0), QUALITY_TIERS.length - 1);
+  return QUALITY_TIERS[index];
+};
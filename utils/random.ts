@@ -0,0 +1,42 @@
+/** A seeded source of uniform numbers in [0, 1). */
+export type Random = () => number;
+
+/** Mulberry32: tiny, fast and good enough for visual randomness. */
+export const mulberry32 = (seed: number): Random => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** FNV-1a hash of a string to an unsigned 32-bit integer. */
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * An independent stream for one purpose (e.g. "scatter" or a photo id), so
+ * that adding draws to one stream never shifts the values of another.
+ */
+export const createRandom = (seed: number, ...labels: string[]): Random =>
+  mulberry32(hashString(`${seed >>> 0}:${labels.join(':')}`));
+
+/** A fresh seed for re-rolling the scene. */
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+/** Seeds are shown and entered as 8-digit hex. */
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).padStart(8, '0');
+
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim().toLowerCase();
+  return /^[0-9a-f]{1,8}$/.test(trimmed) ? parseInt(trimmed, 16) >>> 0 : null;
+};
@@ -0,0 +1,113 @@
+/** A point in a normalized silhouette: x and y in [-0.5, 0.5], y pointing up. */
+export type SilhouettePoint = [number, number];
+
+const RESOLUTION = 160;
+
+/**
+ * Rasterizes a drawing into a square mask and returns the filled pixels as
+ * normalized points. Pixels are visited in scanline order so the result is
+ * deterministic for the same input.
+ */
+export const sampleMask = (draw: (ctx: CanvasRenderingContext2D, size: number) => void): SilhouettePoint[] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = RESOLUTION;
+  canvas.height = RESOLUTION;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.fillStyle = '#fff';
+  draw(ctx, RESOLUTION);
+
+  const { data } = ctx.getImageData(0, 0, RESOLUTION, RESOLUTION);
+  const points: SilhouettePoint[] = [];
+  for (let y = 0; y < RESOLUTION; y++) {
+    for (let x = 0; x < RESOLUTION; x++) {
+      if (data[(y * RESOLUTION + x) * 4 + 3] > 127) {
+        points.push([(x + 0.5) / RESOLUTION - 0.5, 0.5 - (y + 0.5) / RESOLUTION]);
+      }
+    }
+  }
+  return points;
+};
+
+/** Picks `count` points spread evenly through the list (repeating if there are too few). */
+export const pickEvenly = <T>(points: T[], count: number): T[] => {
+  if (points.length === 0) return [];
+  return Array.from({ length: count }, (_, i) => {
+    const index = Math.floor((i / count) * points.length) % points.length;
+    return points[index];
+  });
+};
+
+/** Fits the drawn content into the canvas, keeping aspect ratio with a small margin. */
+const fitBox = (ctx: CanvasRenderingContext2D, size: number, width: number, height: number, x = 0, y = 0) => {
+  const scale = (size * 0.9) / Math.max(width, height);
+  ctx.translate((size - width * scale) / 2, (size - height * scale) / 2);
+  ctx.scale(scale, scale);
+  ctx.translate(-x, -y);
+};
+
+export const sampleText = (text: string): SilhouettePoint[] =>
+  sampleMask((ctx, size) => {
+    const fontSize = 100;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    const lines = text.split('\n').filter(Boolean);
+    const width = Math.max(1, ...lines.map(line => ctx.measureText(line).width));
+    const height = fontSize * lines.length;
+    fitBox(ctx, size, width, height);
+    ctx.textBaseline = 'top';
+    lines.forEach((line, i) => ctx.fillText(line, (width - ctx.measureText(line).width) / 2, i * fontSize));
+  });
+
+/**
+ * Samples the filled area of every <path> in an SVG document (or a bare path
+ * `d` string). Only path geometry is used; styles and transforms are ignored.
+ */
+export const sampleSvg = (source: string): SilhouettePoint[] => {
+  const trimmed = source.trim();
+  let paths: string[];
+  let viewBox = [0, 0, 0, 0];
+
+  if (trimmed.startsWith('<')) {
+    const doc = new DOMParser().parseFromString(trimmed, 'image/svg+xml');
+    paths = Array.from(doc.querySelectorAll('path'))
+      .map(path => path.getAttribute('d'))
+      .filter((d): d is string => !!d);
+    const box = doc.documentElement.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+    if (box && box.length === 4 && box.every(Number.isFinite)) viewBox = box;
+  } else {
+    paths = [trimmed];
+  }
+  if (paths.length === 0) return [];
+
+  return sampleMask((ctx, size) => {
+    const shapes = paths.map(d => new Path2D(d));
+    if (!viewBox[2] || !viewBox[3]) {
+      // No viewBox: estimate the bounds by drawing once at 1:1 and scanning
+      viewBox = estimateBounds(shapes);
+    }
+    fitBox(ctx, size, viewBox[2], viewBox[3], viewBox[0], viewBox[1]);
+    shapes.forEach(shape => ctx.fill(shape));
+  });
+};
+
+const estimateBounds = (shapes: Path2D[]) => {
+  const probe = 1024;
+  const canvas = document.createElement('canvas');
+  canvas.width = probe;
+  canvas.height = probe;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  shapes.forEach(shape => ctx.fill(shape));
+  const { data } = ctx.getImageData(0, 0, probe, probe);
+  let minX = probe, minY = probe, maxX = 0, maxY = 0;
+  for (let y = 0; y < probe; y++) {
+    for (let x = 0; x < probe; x++) {
+      if (data[(y * probe + x) * 4 + 3] > 0) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  return maxX < minX ? [0, 0, probe, probe] : [minX, minY, maxX - minX + 1, maxY - minY + 1];
+};
@@ -0,0 +1,155 @@
+/**
+ * A small finite state machine with context, guarded transitions, entry/exit
+ * actions, delayed (timer) transitions and a bounded transition history.
+ * Snapshots are immutable, so they can be fed to `useSyncExternalStore`.
+ */
+
+export interface MachineEvent {
+  type: string;
+}
+
+type EventOf<E extends MachineEvent, T extends E['type']> = Extract<E, { type: T }>;
+
+/** Returns context changes to merge, or nothing. */
+export type Action<C, E> = (context: C, event: E) => Partial<C> | void;
+
+export interface Transition<S extends string, C, E extends MachineEvent> {
+  /** Omit for an internal transition: actions run, but no exit/entry. */
+  target?: S;
+  guard?: (context: C, event: E) => boolean;
+  action?: Action<C, E>;
+}
+
+export type TransitionMap<S extends string, C, E extends MachineEvent> = {
+  [T in E['type']]?: S | Transition<S, C, EventOf<E, T>> | Transition<S, C, EventOf<E, T>>[];
+};
+
+export interface StateNode<S extends string, C, E extends MachineEvent> {
+  on?: TransitionMap<S, C, E>;
+  entry?: Action<C, E>;
+  exit?: Action<C, E>;
+  /** Transitions taken automatically after a delay (ms) spent in this state. */
+  after?: { delay: number; target: S; guard?: (context: C) => boolean }[];
+}
+
+export interface MachineConfig<S extends string, C, E extends MachineEvent> {
+  initial: S;
+  context: C;
+  states: Record<S, StateNode<S, C, E>>;
+  /** Transitions available in every state, used when the current state does not handle the event. */
+  on?: TransitionMap<S, C, E>;
+  historyLimit?: number;
+}
+
+export interface Snapshot<S extends string, C> {
+  state: S;
+  context: C;
+}
+
+export interface HistoryEntry<S extends string, E> {
+  from: S;
+  to: S;
+  event: E | { type: 'TIMER'; delay: number };
+  timestamp: number;
+}
+
+export type Listener<S extends string, C, E> = (snapshot: Snapshot<S, C>, transition: HistoryEntry<S, E>) => void;
+
+export class StateMachine<S extends string, C, E extends MachineEvent> {
+  private snapshot: Snapshot<S, C>;
+  private listeners = new Set<Listener<S, C, E>>();
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private log: HistoryEntry<S, E>[] = [];
+
+  constructor(private config: MachineConfig<S, C, E>) {
+    this.snapshot = { state: config.initial, context: config.context };
+    this.scheduleTimers();
+  }
+
+  getSnapshot = () => this.snapshot;
+
+  get history(): readonly HistoryEntry<S, E>[] {
+    return this.log;
+  }
+
+  /** Calls `listener` after every handled event with the new snapshot and the transition taken. */
+  subscribe = (listener: Listener<S, C, E>) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** True if `event` would be handled in the current state. */
+  can(event: E) {
+    return this.resolve(event) !== null;
+  }
+
+  /** Dispatches an event; returns whether any transition was taken. */
+  send = (event: E): boolean => {
+    const transition = this.resolve(event);
+    if (!transition) return false;
+    this.apply(transition, event, event);
+    return true;
+  };
+
+  /** Cancels pending delayed transitions. */
+  stop() {
+    this.clearTimers();
+  }
+
+  private resolve(event: E): Transition<S, C, E> | null {
+    const node = this.config.states[this.snapshot.state];
+    const type = event.type as E['type'];
+    const candidates = node.on?.[type] ?? this.config.on?.[type];
+    if (!candidates) return null;
+    const list = (Array.isArray(candidates) ? candidates : [candidates]) as (S | Transition<S, C, E>)[];
+    for (const candidate of list) {
+      const transition = typeof candidate === 'string' ? { target: candidate } : candidate;
+      if (!transition.guard || transition.guard(this.snapshot.context, event)) return transition;
+    }
+    return null;
+  }
+
+  private apply(transition: Transition<S, C, E>, event: E, logged: HistoryEntry<S, E>['event']) {
+    const from = this.snapshot.state;
+    const to = transition.target ?? from;
+    const external = transition.target !== undefined;
+    let context = this.snapshot.context;
+    const run = (action?: Action<C, E>) => {
+      const changes = action?.(context, event);
+      if (changes) context = { ...context, ...changes };
+    };
+
+    if (external) {
+      this.clearTimers();
+      run(this.config.states[from].exit);
+    }
+    run(transition.action);
+    if (external) run(this.config.states[to].entry);
+
+    this.snapshot = { state: to, context };
+    const entry: HistoryEntry<S, E> = { from, to, event: logged, timestamp: Date.now() };
+    this.log.push(entry);
+    if (this.log.length > (this.config.historyLimit ?? 50)) this.log.shift();
+
+    if (external) this.scheduleTimers();
+    this.listeners.forEach(listener => listener(this.snapshot, entry));
+  }
+
+  private scheduleTimers() {
+    const { after } = this.config.states[this.snapshot.state];
+    after?.forEach(({ delay, target, guard }) => {
+      this.timers.push(setTimeout(() => {
+        if (guard && !guard(this.snapshot.context)) return;
+        const timerEvent = { type: 'TIMER' as const, delay };
+        this.apply({ target }, timerEvent as unknown as E, timerEvent);
+      }, delay));
+    });
+  }
+
+  private clearTimers() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+}
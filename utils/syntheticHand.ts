@@ -0,0 +1,75 @@
+import { GestureHandlers, PoseKind, HandGesture } from '../types';
+
+/**
+ * A virtual hand for non-camera input. Providers flip poses on and off and
+ * move the position; the hand turns that into the same continuous
+ * `HandGesture` stream and start/end events the camera tracker produces.
+ * Poses are mutually exclusive, like a real hand.
+ */
+export class SyntheticHand {
+  private poses: Record<PoseKind, boolean> = {
+    fist: false,
+    open: false,
+    pinch: false,
+    point: false,
+    peace: false,
+    thumbsUp: false,
+  };
+  private pulseTimers: ReturnType<typeof setTimeout>[] = [];
+  /** Hand position in the same mirrored image space MediaPipe reports. */
+  position = { x: 0.5, y: 0.5 };
+
+  constructor(private handlers: GestureHandlers) {}
+
+  set(kind: PoseKind, active: boolean) {
+    if (this.poses[kind] === active) return;
+    if (active) {
+      (Object.keys(this.poses) as PoseKind[])
+        .filter(other => other !== kind && this.poses[other])
+        .forEach(other => this.toggle(other, false));
+    }
+    this.toggle(kind, active);
+    this.emit();
+  }
+
+  /** Starts a pose and ends it again shortly after, for tap-style triggers. */
+  pulse(kind: PoseKind, durationMs = 150) {
+    this.set(kind, true);
+    this.pulseTimers.push(setTimeout(() => this.set(kind, false), durationMs));
+  }
+
+  moveTo(x: number, y: number) {
+    this.position = { x: Math.min(Math.max(x, 0), 1), y: Math.min(Math.max(y, 0), 1) };
+    this.emit();
+  }
+
+  moveBy(dx: number, dy: number) {
+    this.moveTo(this.position.x + dx, this.position.y + dy);
+  }
+
+  /** Ends every active pose, e.g. when the provider is switched off. */
+  release() {
+    this.pulseTimers.forEach(clearTimeout);
+    this.pulseTimers = [];
+    (Object.keys(this.poses) as PoseKind[]).forEach(kind => this.set(kind, false));
+  }
+
+  get gesture(): HandGesture {
+    return {
+      isFist: this.poses.fist,
+      isOpen: this.poses.open,
+      isGrabbing: this.poses.pinch,
+      position: { ...this.position },
+      rotation: { x: 0, y: 0, z: 0 },
+    };
+  }
+
+  private toggle(kind: PoseKind, active: boolean) {
+    this.poses[kind] = active;
+    this.handlers.onGestureEvent?.({ type: active ? 'start' : 'end', gesture: kind, timestamp: performance.now() });
+  }
+
+  private emit() {
+    this.handlers.onGesture(this.gesture);
+  }
+}
@@ -0,0 +1,27 @@
+/** Total GPU memory allowed for full-resolution photo textures. */
+export const TEXTURE_BUDGET_BYTES = 128 * 1024 * 1024;
+
+/** RGBA8 texture plus its mipmap chain. */
+export const estimateTextureBytes = (width: number, height: number) => Math.round((width * height * 4 * 4) / 3);
+
+export interface TextureCandidate {
+  id: string;
+  bytes: number;
+  /** Distance from the camera; nearer photos are loaded first. */
+  distance: number;
+  /** Always resident regardless of distance (e.g. hovered or selected). */
+  pinned?: boolean;
+}
+
+/** Picks which photos get their full-resolution texture within the budget. */
+export const allocateTextures = (candidates: TextureCandidate[], budget = TEXTURE_BUDGET_BYTES): Set<string> => {
+  const sorted = [...candidates].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || a.distance - b.distance);
+  const resident = new Set<string>();
+  let used = 0;
+  for (const candidate of sorted) {
+    if (!candidate.pinned && used + candidate.bytes > budget) continue;
+    used += candidate.bytes;
+    resident.add(candidate.id);
+  }
+  return resident;
+};
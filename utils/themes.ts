@@ -0,0 +1,239 @@
+import * as THREE from 'three';
+import { Theme, ThemeSwatch } from '../types';
+import { downloadBlob } from './download';
+
+export const CLASSIC_THEME: Theme = {
+  id: 'classic',
+  name: 'Classic Gold',
+  background: '#050a08',
+  palette: [
+    { color: '#1B4D3E', weight: 0.6 }, // Matte Green
+    { color: '#D4AF37', weight: 0.25 }, // Gold
+    { color: '#B22222', weight: 0.15 }, // Red
+  ],
+  ornaments: { metalness: 0.7, roughness: 0.3, sparkle: 0.6 },
+  star: { color: '#FFD700', emissiveIntensity: 4 },
+  frame: { color: '#D4AF37', metalness: 1, roughness: 0.1, hoverGlow: 2.5 },
+  placeholder: '#1B4D3E',
+  cursor: '#FFF3C4',
+  lights: {
+    ambient: { color: '#FFFFFF', intensity: 0.4 },
+    point: { color: '#D4AF37', intensity: 2 },
+    spot: { color: '#FFFFFF', intensity: 1.5 },
+  },
+  postprocessing: {
+    bloomThreshold: 0.5,
+    bloomIntensity: 1.2,
+    bloomRadius: 0.4,
+    noiseOpacity: 0.05,
+    vignetteOffset: 0.1,
+    vignetteDarkness: 1.1,
+  },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [
+  CLASSIC_THEME,
+  {
+    id: 'icy',
+    name: 'Icy Silver-Blue',
+    background: '#060B14',
+    palette: [
+      { color: '#A8C8E8', weight: 0.45 },
+      { color: '#E8F1F8', weight: 0.3 },
+      { color: '#5B7FA6', weight: 0.25 },
+    ],
+    ornaments: { metalness: 0.9, roughness: 0.15, sparkle: 0.9 },
+    star: { color: '#DFF3FF', emissiveIntensity: 4 },
+    frame: { color: '#C0C8D0', metalness: 1, roughness: 0.15, hoverGlow: 2 },
+    placeholder: '#1E2F45',
+    cursor: '#E0F4FF',
+    lights: {
+      ambient: { color: '#CFE3FF', intensity: 0.5 },
+      point: { color: '#9CC9FF', intensity: 2 },
+      spot: { color: '#FFFFFF', intensity: 1.5 },
+    },
+    postprocessing: {
+      bloomThreshold: 0.45,
+      bloomIntensity: 1.4,
+      bloomRadius: 0.5,
+      noiseOpacity: 0.03,
+      vignetteOffset: 0.1,
+      vignetteDarkness: 1,
+    },
+  },
+  {
+    id: 'candy-cane',
+    name: 'Candy Cane',
+    background: '#12060A',
+    palette: [
+      { color: '#C8102E', weight: 0.45 },
+      { color: '#FFFFFF', weight: 0.4 },
+      { color: '#2E8B57', weight: 0.15 },
+    ],
+    ornaments: { metalness: 0.3, roughness: 0.4, sparkle: 0.5 },
+    star: { color: '#FF4D6D', emissiveIntensity: 3.5 },
+    frame: { color: '#F5F5F5', metalness: 0.4, roughness: 0.3, hoverGlow: 1.5 },
+    placeholder: '#5A0F1C',
+    cursor: '#FFD6DE',
+    lights: {
+      ambient: { color: '#FFFFFF', intensity: 0.5 },
+      point: { color: '#FF8FA3', intensity: 1.8 },
+      spot: { color: '#FFFFFF', intensity: 1.5 },
+    },
+    postprocessing: {
+      bloomThreshold: 0.55,
+      bloomIntensity: 1,
+      bloomRadius: 0.4,
+      noiseOpacity: 0.04,
+      vignetteOffset: 0.1,
+      vignetteDarkness: 1,
+    },
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal White',
+    background: '#E9E6E0',
+    palette: [
+      { color: '#FFFFFF', weight: 0.7 },
+      { color: '#D9D9D9', weight: 0.2 },
+      { color: '#B8B8B8', weight: 0.1 },
+    ],
+    ornaments: { metalness: 0.1, roughness: 0.6, sparkle: 0.2 },
+    star: { color: '#FFFFFF', emissiveIntensity: 1.5 },
+    frame: { color: '#FFFFFF', metalness: 0, roughness: 0.8, hoverGlow: 0.6 },
+    placeholder: '#CCCCCC',
+    cursor: '#333333',
+    lights: {
+      ambient: { color: '#FFFFFF', intensity: 0.8 },
+      point: { color: '#FFFFFF', intensity: 1.2 },
+      spot: { color: '#FFFFFF', intensity: 1.2 },
+    },
+    // A bright background would bloom everywhere, so only the star glows
+    postprocessing: {
+      bloomThreshold: 0.9,
+      bloomIntensity: 0.4,
+      bloomRadius: 0.3,
+      noiseOpacity: 0,
+      vignetteOffset: 0.2,
+      vignetteDarkness: 0.4,
+    },
+  },
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const color = (value: unknown, path: string) => {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) throw new Error(`${path} must be a #rrggbb color`);
+  return value;
+};
+
+const number = (value: unknown, path: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new Error(`${path} must be a non-negative number`);
+  return value;
+};
+
+type Fields = Record<string, unknown>;
+
+const fields = (value: unknown, path: string): Fields => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`Missing "${path}"`);
+  return value as Fields;
+};
+
+const light = (value: unknown, path: string) => {
+  const data = fields(value, path);
+  return {
+    color: color(data.color, `${path}.color`),
+    intensity: number(data.intensity, `${path}.intensity`),
+  };
+};
+
+const palette = (value: unknown) => {
+  if (!Array.isArray(value) || value.length === 0) throw new Error('"palette" needs at least one color');
+  const swatches = value.map((item: unknown, i) => {
+    const swatch = fields(item, `palette[${i}]`);
+    return {
+      color: color(swatch.color, `palette[${i}].color`),
+      weight: number(swatch.weight, `palette[${i}].weight`),
+    };
+  });
+  // pickSwatch divides by the total weight
+  if (swatches.reduce((sum, swatch) => sum + swatch.weight, 0) <= 0) throw new Error('"palette" needs a color with a weight above 0');
+  return swatches;
+};
+
+/** Validates a theme file. Every field is required so an exported theme always round-trips. */
+export const parseTheme = (json: string): Theme => {
+  const parsed: unknown = JSON.parse(json);
+  if (!parsed || typeof parsed !== 'object') throw new Error('Not a theme file');
+  const data = parsed as Fields;
+  const { id, name } = data;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name) {
+    throw new Error('A theme needs an id and a name');
+  }
+
+  const ornaments = fields(data.ornaments, 'ornaments');
+  const star = fields(data.star, 'star');
+  const frame = fields(data.frame, 'frame');
+  const lights = fields(data.lights, 'lights');
+  const post = fields(data.postprocessing, 'postprocessing');
+
+  return {
+    id,
+    name,
+    background: color(data.background, 'background'),
+    palette: palette(data.palette),
+    ornaments: {
+      metalness: number(ornaments.metalness, 'ornaments.metalness'),
+      roughness: number(ornaments.roughness, 'ornaments.roughness'),
+      sparkle: number(ornaments.sparkle, 'ornaments.sparkle'),
+    },
+    star: {
+      color: color(star.color, 'star.color'),
+      emissiveIntensity: number(star.emissiveIntensity, 'star.emissiveIntensity'),
+    },
+    frame: {
+      color: color(frame.color, 'frame.color'),
+      metalness: number(frame.metalness, 'frame.metalness'),
+      roughness: number(frame.roughness, 'frame.roughness'),
+      hoverGlow: number(frame.hoverGlow, 'frame.hoverGlow'),
+    },
+    placeholder: color(data.placeholder, 'placeholder'),
+    cursor: color(data.cursor, 'cursor'),
+    lights: {
+      ambient: light(lights.ambient, 'lights.ambient'),
+      point: light(lights.point, 'lights.point'),
+      spot: light(lights.spot, 'lights.spot'),
+    },
+    postprocessing: {
+      bloomThreshold: number(post.bloomThreshold, 'postprocessing.bloomThreshold'),
+      bloomIntensity: number(post.bloomIntensity, 'postprocessing.bloomIntensity'),
+      bloomRadius: number(post.bloomRadius, 'postprocessing.bloomRadius'),
+      noiseOpacity: number(post.noiseOpacity, 'postprocessing.noiseOpacity'),
+      vignetteOffset: number(post.vignetteOffset, 'postprocessing.vignetteOffset'),
+      vignetteDarkness: number(post.vignetteDarkness, 'postprocessing.vignetteDarkness'),
+    },
+  };
+};
+
+export const downloadTheme = (theme: Theme) => {
+  downloadBlob(new Blob([JSON.stringify(theme, null, 2)], { type: 'application/json' }), `theme-${theme.id}.json`);
+};
+
+/** Picks a palette color from a uniform random number, honoring the weights. */
+export const pickSwatch = (palette: ThemeSwatch[], r: number) => {
+  const total = palette.reduce((sum, swatch) => sum + swatch.weight, 0);
+  let acc = 0;
+  for (const swatch of palette) {
+    acc += swatch.weight / total;
+    if (r < acc) return swatch.color;
+  }
+  return palette[palette.length - 1].color;
+};
+
+const scratch = new THREE.Color();
+
+/** Eases a live color toward a theme color; used for the cross-fade when switching themes. */
+export const easeColor = (current: THREE.Color, target: string, alpha: number) => current.lerp(scratch.set(target), alpha);
+
+/** Frame-rate independent easing factor shared by all theme transitions. */
+export const themeEase = (delta: number) => Math.min(delta * 3, 1);
@@ -0,0 +1,70 @@
+import { GestureEvent, GestureKind, Handedness, Landmark } from '../types';
+import { fingerExtension, fingerExtensions, pinchDistance, thumbLift } from './gestureRecognizer';
+
+/** The raw measurements behind one hand's recognized gesture. */
+export interface HandDiagnostics {
+  handedness: Handedness;
+  /** MediaPipe's confidence in the handedness label, 0-1. */
+  score: number;
+  /** Poses currently held, as reported by the recognizer. */
+  poses: GestureKind[];
+  /** Average finger extension, compared against the fist/open thresholds. */
+  extension: number;
+  /** Index, middle, ring and pinky extension, for the finger poses. */
+  fingers: number[];
+  pinch: number;
+  thumbLift: number;
+}
+
+export interface TrackingDiagnostics {
+  /** Results per second coming back from MediaPipe. */
+  fps: number;
+  hands: HandDiagnostics[];
+}
+
+/**
+ * Collects tracking rate, confidence and gesture measurements for the
+ * diagnostics panel. Poses are followed through the recognizer's events so
+ * the panel shows exactly what the scene receives.
+ */
+export class DiagnosticsCollector {
+  private fps = 0;
+  private lastResultTime: number | null = null;
+  private poses: Record<Handedness, Set<GestureKind>> = { Left: new Set(), Right: new Set() };
+
+  handleEvents(events: GestureEvent[]) {
+    events.forEach(event => {
+      const held = this.poses[event.handedness ?? 'Right'];
+      if (event.type === 'start') held.add(event.gesture);
+      else held.delete(event.gesture);
+    });
+  }
+
+  update(hands: { landmarks: Landmark[]; handedness: Handedness; score: number }[], now: number): TrackingDiagnostics {
+    if (this.lastResultTime !== null) {
+      const instant = 1000 / Math.max(now - this.lastResultTime, 1);
+      this.fps = this.fps ? this.fps * 0.9 + instant * 0.1 : instant;
+    }
+    this.lastResultTime = now;
+
+    return {
+      fps: this.fps,
+      hands: hands.map(({ landmarks, handedness, score }) => ({
+        handedness,
+        score,
+        poses: [...this.poses[handedness]],
+        extension: fingerExtension(landmarks),
+        fingers: fingerExtensions(landmarks),
+        pinch: pinchDistance(landmarks),
+        thumbLift: thumbLift(landmarks),
+      })),
+    };
+  }
+
+  reset() {
+    this.fps = 0;
+    this.lastResultTime = null;
+    this.poses.Left.clear();
+    this.poses.Right.clear();
+  }
+}
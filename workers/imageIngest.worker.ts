@@ -0,0 +1,21 @@
+import { processImage } from '../utils/imageProcessing';
+
+export interface IngestRequest {
+  id: number;
+  blob: Blob;
+}
+
+export type IngestResponse =
+  | { id: number; image: Awaited<ReturnType<typeof processImage>> }
+  | { id: number; error: string };
+
+self.onmessage = async (e: MessageEvent<IngestRequest>) => {
+  const { id, blob } = e.data;
+  let response: IngestResponse;
+  try {
+    response = { id, image: await processImage(blob) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  (self as unknown as Worker).postMessage(response);
+};